@@ -0,0 +1,134 @@
+import { mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { entities } from '../src/entities';
+import type { Config } from '../src/types/config';
+import { applyRenderOptions, cliParams, parseQuery, RENDER_FIELDS, type RenderOptions } from '../src/core/query-schema';
+import { BASE_SEED, variantSeed } from '../src/core/variants';
+
+const OUTPUT_DIR = path.join(__dirname, '..', 'cache', 'atlas');
+const ATLAS_FRAMES = 16;
+const OPTIONS = {
+    width: RENDER_FIELDS.width,
+    height: RENDER_FIELDS.height,
+    padding: RENDER_FIELDS.padding,
+    fps: RENDER_FIELDS.fps,
+    duration: RENDER_FIELDS.duration,
+};
+
+/**
+ * AtlasGenerator - Renders evenly spaced growth frames of each entity into
+ * a sprite sheet PNG plus JSON atlas under cache/atlas
+ */
+export class AtlasGenerator {
+    private baseSeed: string;
+    private outputDir: string;
+    private options: RenderOptions;
+
+    constructor(baseSeed: string = BASE_SEED, outputDir: string = OUTPUT_DIR, options: RenderOptions = {}) {
+        this.baseSeed = baseSeed;
+        this.outputDir = outputDir;
+        this.options = options;
+    }
+
+    private getSeed(index: number): string {
+        return variantSeed(index, this.baseSeed);
+    }
+
+    private async ensureOutputDir(): Promise<void> {
+        if (!existsSync(this.outputDir)) {
+            await mkdir(this.outputDir, { recursive: true });
+            console.log(`✅ Created output directory: ${this.outputDir}`);
+        }
+    }
+
+    private async generateVariants(entityName: string, forceOverwrite: boolean): Promise<void> {
+        const entity = entities.get(entityName)!;
+        for (let i = 0; i < entity.variants; i++) {
+            const sheetPath = path.join(this.outputDir, `${entityName}_${i}.png`);
+            if (!forceOverwrite && existsSync(sheetPath)) {
+                console.log(`  ⏩ Skipping ${entityName}_${i} (already cached)`);
+                continue;
+            }
+            // Same seeds and timing as the image and video caches, so all three match
+            const entityConfig: Config = applyRenderOptions({
+                photoOnly: false,
+                width: 480,
+                height: 480,
+                fps: 25,
+                durationSeconds: 30,
+                seed: this.getSeed(i),
+                filename: 'video.webm',
+                imageFilename: sheetPath,
+                padding: 80,
+                save_as_file: true,
+                progress: 1,
+                atlasFrames: ATLAS_FRAMES
+            }, this.options);
+
+            try {
+                await entity.generate.generate(null as any, undefined, entityConfig);
+            } catch (error) {
+                console.error(`  ✗ Error generating ${entityName}_${i}:`, error);
+            }
+        }
+        console.log(`  ✓ Generated ${entity.variants} atlases for ${entityName}`);
+    }
+
+    async generateAll(forceOverwrite: boolean = false): Promise<void> {
+        console.log(`\n🧩 Atlas Generator`);
+        console.log(`   Base Seed: ${this.baseSeed}`);
+        console.log(`   Frames: ${ATLAS_FRAMES}`);
+        console.log(`   Output: ${this.outputDir}\n`);
+
+        await this.ensureOutputDir();
+
+        console.log(`📦 Generating atlases for ${entities.size} entities...\n`);
+
+        for (const [entityName, entity] of entities) {
+            console.log(`🔄 Processing: ${entityName} (${entity.variants} variants)`);
+            await this.generateVariants(entityName, forceOverwrite);
+        }
+
+        console.log(`\n✅ Atlas generation complete!`);
+        console.log(`   Output directory: ${this.outputDir}\n`);
+    }
+
+    async generateForEntity(entityName: string, forceOverwrite: boolean = false): Promise<void> {
+        await this.ensureOutputDir();
+
+        if (!entities.has(entityName)) {
+            console.error(`Entity "${entityName}" not found. Available entities:`);
+            for (const name of entities.keys()) {
+                console.log(`  - ${name}`);
+            }
+            return;
+        }
+
+        console.log(`\n🧩 Atlas Generator - ${entityName}`);
+        console.log(`   Base Seed: ${this.baseSeed}`);
+        console.log(`   Frames: ${ATLAS_FRAMES}\n`);
+
+        await this.generateVariants(entityName, forceOverwrite);
+        console.log(`\n✅ Done!`);
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const options = parseQuery(OPTIONS, cliParams(args));
+    if (Array.isArray(options)) {
+        throw new Error(options.map(error => error.message).join('\n'));
+    }
+    const generator = new AtlasGenerator(BASE_SEED, OUTPUT_DIR, options);
+    const forceOverwrite = args.includes('--force');
+    const entityArg = args.find(arg => !arg.startsWith('--'));
+
+    if (entityArg) {
+        await generator.generateForEntity(entityArg, forceOverwrite);
+    } else {
+        await generator.generateAll(forceOverwrite);
+    }
+}
+
+main().catch(console.error);
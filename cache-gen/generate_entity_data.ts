@@ -1,30 +1,14 @@
 import { entities } from "../src/entities";
+import { describeCatalog } from "../src/core/catalog";
 import { writeFileSync } from "fs";
 import { join } from "path";
 
-const entityIds = Array.from(entities.keys());
-
-const entityList = entityIds.map(id => {
-    const entity = entities.get(id)!;
-    return {
-        id,
-        name: entity.name,
-        description: entity.description,
-        creator: entity.creator,
-        donate: entity.donate,
-        variants: entity.variants,
-        basePrice: entity.basePrice
-    };
-});
+// Same data GET /entities serves
+const data = describeCatalog(entities);
 
 const outputPath = join(__dirname, "../cache/entity_data.json");
 
-const data = {
-    entities: entityList,
-    count: entityList.length
-};
-
 writeFileSync(outputPath, JSON.stringify(data, null, 2));
 
-console.log(`Generated entity data with ${entityList.length} entities:`);
-entityList.forEach(e => console.log(`  - ${e.id}: ${e.name} (${e.variants} variants, $${e.basePrice})`));
+console.log(`Generated entity data with ${data.count} entities:`);
+data.entities.forEach(e => console.log(`  - ${e.id}: ${e.name} (${e.variants} variants, $${e.basePrice})`));
@@ -4,9 +4,15 @@ import path from 'path';
 import { entities } from '../src/entities';
 import type { Config } from '../src/types/config';
 import { generateGrid, type TreeConfig } from '../src/grid_image';
+import { applyRenderOptions, cliParams, parseQuery, RENDER_FIELDS, type RenderOptions } from '../src/core/query-schema';
+import { BASE_SEED, variantSeed } from '../src/core/variants';
 
-const BASE_SEED = '0';
 const OUTPUT_DIR = path.join(__dirname, '..', 'cache', 'images');
+const OPTIONS = {
+    width: RENDER_FIELDS.width,
+    height: RENDER_FIELDS.height,
+    padding: RENDER_FIELDS.padding,
+};
 
 /**
  * SingleGridGenerator - Generates a single grid structure for each entity
@@ -15,14 +21,16 @@ const OUTPUT_DIR = path.join(__dirname, '..', 'cache', 'images');
 export class SingleGridGenerator {
     private baseSeed: string;
     private outputDir: string;
+    private options: RenderOptions;
 
-    constructor(baseSeed: string = BASE_SEED, outputDir: string = OUTPUT_DIR) {
+    constructor(baseSeed: string = BASE_SEED, outputDir: string = OUTPUT_DIR, options: RenderOptions = {}) {
         this.baseSeed = baseSeed;
         this.outputDir = outputDir;
+        this.options = options;
     }
 
     private getSeed(index: number): string {
-        return `${this.baseSeed}${index.toString().padStart(4, '0')}`;
+        return variantSeed(index, this.baseSeed);
     }
 
     private async ensureOutputDir(): Promise<void> {
@@ -64,7 +72,7 @@ export class SingleGridGenerator {
 
             for (let i = 0; i < numVariations; i++) {
                 const seed = this.getSeed(i);
-                const entityConfig: Config = {
+                const entityConfig: Config = applyRenderOptions({
                     photoOnly: true,
                     width: 480,
                     height: 480,
@@ -74,8 +82,9 @@ export class SingleGridGenerator {
                     filename: 'video.webm',
                     imageFilename: 'image.png',
                     padding: 80,
-                    save_as_file: true
-                };
+                    save_as_file: true,
+                    progress: 1
+                }, this.options);
 
                 try {
                     const result = await entity.generate.generate(null as any, undefined, entityConfig);
@@ -126,7 +135,7 @@ export class SingleGridGenerator {
 
         for (let i = 0; i < numVariations; i++) {
             const seed = this.getSeed(i);
-            const entityConfig: Config = {
+            const entityConfig: Config = applyRenderOptions({
                 photoOnly: true,
                 width: 480,
                 height: 480,
@@ -136,8 +145,9 @@ export class SingleGridGenerator {
                 filename: 'video.webm',
                 imageFilename: 'image.png',
                 padding: 80,
-                save_as_file: true
-            };
+                save_as_file: true,
+                progress: 1
+            }, this.options);
 
             try {
                 const result = await entity.generate.generate(null as any, undefined, entityConfig);
@@ -161,8 +171,13 @@ export class SingleGridGenerator {
 }
 
 async function main() {
-    const generator = new SingleGridGenerator(BASE_SEED, OUTPUT_DIR);
-    const entityArg = process.argv[2];
+    const args = process.argv.slice(2);
+    const options = parseQuery(OPTIONS, cliParams(args));
+    if (Array.isArray(options)) {
+        throw new Error(options.map(error => error.message).join('\n'));
+    }
+    const generator = new SingleGridGenerator(BASE_SEED, OUTPUT_DIR, options);
+    const entityArg = args.find(arg => !arg.startsWith('--'));
     
     if (entityArg) {
         await generator.generateForEntity(entityArg);
@@ -4,11 +4,17 @@ import path from 'path';
 import { entities } from '../src/entities';
 import type { Config } from '../src/types/config';
 import { generateGridVideo } from '../src/grid_video';
+import { applyRenderOptions, cliParams, parseQuery, RENDER_FIELDS, type RenderOptions } from '../src/core/query-schema';
+import { BASE_SEED, variantSeed } from '../src/core/variants';
 
-const BASE_SEED = '0';
 const OUTPUT_DIR = path.join(__dirname, '..', 'cache', 'video');
 const IMAGES_DIR = path.join(__dirname, '..', 'cache', 'images');
 const TREE_SCALE = 1;
+// Size and frame rate have to match the cached images and the grid video
+const OPTIONS = {
+    padding: RENDER_FIELDS.padding,
+    duration: RENDER_FIELDS.duration,
+};
 
 /**
  * VideoGenerator - Generates videos for each entity
@@ -17,14 +23,16 @@ const TREE_SCALE = 1;
 export class VideoGenerator {
     private baseSeed: string;
     private outputDir: string;
+    private options: RenderOptions;
 
-    constructor(baseSeed: string = BASE_SEED, outputDir: string = OUTPUT_DIR) {
+    constructor(baseSeed: string = BASE_SEED, outputDir: string = OUTPUT_DIR, options: RenderOptions = {}) {
         this.baseSeed = baseSeed;
         this.outputDir = outputDir;
+        this.options = options;
     }
 
     private getSeed(index: number): string {
-        return `${this.baseSeed}${index.toString().padStart(4, '0')}`;
+        return variantSeed(index, this.baseSeed);
     }
 
     private async ensureOutputDir(): Promise<void> {
@@ -54,7 +62,7 @@ export class VideoGenerator {
                     continue;
                 }
                 const seed = this.getSeed(i);
-                const entityConfig: Config = {
+                const entityConfig: Config = applyRenderOptions({
                     photoOnly: false,
                     width: 480,
                     height: 480,
@@ -64,8 +72,9 @@ export class VideoGenerator {
                     filename: 'video.webm',
                     imageFilename: 'image.png',
                     padding: 80,
-                    save_as_file: true
-                };
+                    save_as_file: true,
+                    progress: 1
+                }, this.options);
 
                 try {
                     const result = await entity.generate.generate(null as any, undefined, entityConfig);
@@ -117,7 +126,7 @@ export class VideoGenerator {
                 continue;
             }
             const seed = this.getSeed(i);
-            const entityConfig: Config = {
+            const entityConfig: Config = applyRenderOptions({
                 photoOnly: false,
                 width: 480,
                 height: 480,
@@ -127,8 +136,9 @@ export class VideoGenerator {
                 filename: 'video.webm',
                 imageFilename: 'image.png',
                 padding: 80,
-                save_as_file: true
-            };
+                save_as_file: true,
+                progress: 1
+            }, this.options);
 
             try {
                 const result = await entity.generate.generate(null as any, undefined, entityConfig);
@@ -155,9 +165,14 @@ export class VideoGenerator {
 
 
 async function main() {
-    const generator = new VideoGenerator(BASE_SEED, OUTPUT_DIR);
-    const entityArg = process.argv[2];
-    const forceArg = process.argv.includes('--force');
+    const args = process.argv.slice(2);
+    const options = parseQuery(OPTIONS, cliParams(args));
+    if (Array.isArray(options)) {
+        throw new Error(options.map(error => error.message).join('\n'));
+    }
+    const generator = new VideoGenerator(BASE_SEED, OUTPUT_DIR, options);
+    const entityArg = args.find(arg => !arg.startsWith('--'));
+    const forceArg = args.includes('--force');
 
     if (entityArg) {
         await generator.generateForEntity(entityArg, forceArg);
@@ -0,0 +1,32 @@
+import type { Bounds, Layout } from '../types/layout';
+
+export function emptyBounds(): Bounds {
+    return { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+}
+
+export function isEmptyBounds(b: Bounds): boolean {
+    return b.minX > b.maxX || b.minY > b.maxY;
+}
+
+/**
+ * Grows bounds in place to include a box of half-size radiusX/radiusY around (x, y).
+ */
+export function includeBox(b: Bounds, x: number, y: number, radiusX: number = 0, radiusY: number = radiusX): Bounds {
+    b.minX = Math.min(b.minX, x - radiusX);
+    b.maxX = Math.max(b.maxX, x + radiusX);
+    b.minY = Math.min(b.minY, y - radiusY);
+    b.maxY = Math.max(b.maxY, y + radiusY);
+    return b;
+}
+
+/**
+ * Maps scene-space bounds onto the canvas using a layout.
+ */
+export function toCanvasBounds(b: Bounds, layout: Layout): Bounds {
+    return {
+        minX: b.minX * layout.scale + layout.offsetX,
+        maxX: b.maxX * layout.scale + layout.offsetX,
+        minY: b.minY * layout.scale + layout.offsetY,
+        maxY: b.maxY * layout.scale + layout.offsetY,
+    };
+}
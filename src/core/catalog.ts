@@ -0,0 +1,73 @@
+import type { Entity } from '../models/entity';
+import type { FilterName } from './filters';
+import { getAvailableFilters } from './filters';
+import { VIDEO_FORMATS } from './encoders';
+import { SceneGenerator } from './renderer';
+import { latestVersion } from './versions';
+import { variantSeed } from './variants';
+
+export interface EntityPreview {
+    seed: string;
+    image: string;
+    video: string;
+}
+
+export interface CatalogEntry {
+    id: string;
+    name: string;
+    description: string;
+    creator: string;
+    donate: string;
+    variants: number;
+    basePrice: number;
+    isGrowable: boolean;
+    version: number;
+    versions: readonly number[];
+    filters: FilterName[];
+    formats: { image: string[]; video: string[] };
+    modes: string[];
+    /** One per variant, as server-relative URLs */
+    previews: EntityPreview[];
+}
+
+/**
+ * What clients need to offer an entity: its metadata plus the options its
+ * generator supports. Local artwork replays fixed webm videos, so it can't
+ * be filtered or exported as SVG, and only generators that sway offer
+ * idle loops.
+ */
+export function describeEntity(id: string, entity: Entity): CatalogEntry {
+    const drawn = entity.generate instanceof SceneGenerator;
+    const type = encodeURIComponent(id);
+    return {
+        id,
+        name: entity.name,
+        description: entity.description,
+        creator: entity.creator,
+        donate: entity.donate,
+        variants: entity.variants,
+        basePrice: entity.basePrice,
+        isGrowable: entity.isGrowable,
+        version: latestVersion(entity.generate),
+        versions: entity.generate.versions,
+        filters: drawn ? getAvailableFilters() : [],
+        formats: {
+            image: drawn ? ['png', 'svg'] : ['png'],
+            video: drawn ? [...VIDEO_FORMATS] : ['webm'],
+        },
+        modes: entity.generate.supportsIdle ? ['growth', 'idle'] : ['growth'],
+        previews: Array.from({ length: entity.variants }, (_, index) => {
+            const seed = variantSeed(index);
+            return {
+                seed,
+                image: `/image?type=${type}&seed=${seed}`,
+                video: `/video?type=${type}&seed=${seed}`,
+            };
+        }),
+    };
+}
+
+export function describeCatalog(entities: Map<string, Entity>): { entities: CatalogEntry[]; count: number } {
+    const list = [...entities].map(([id, entity]) => describeEntity(id, entity));
+    return { entities: list, count: list.length };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_CONFIG } from '../types/config';
+import type { VideoFormat } from '../types/video-format';
+import { encoderProfile, VIDEO_FORMATS } from './encoders';
+import { getFFmpegArgs } from './ffmpeg-args';
+
+// What each format has to be served and encoded as; png-zip never reaches ffmpeg
+const EXPECTED: Record<VideoFormat, { contentType: string; extension: string; args?: string[] }> = {
+    webm: { contentType: 'video/webm', extension: 'webm', args: ['-c:v libvpx-vp9', '-pix_fmt yuva420p', '-f webm pipe:1'] },
+    mov: { contentType: 'video/quicktime', extension: 'mov', args: ['-c:v libx265', '-tag:v hvc1', '-movflags frag_keyframe+empty_moov -f mov pipe:1'] },
+    webp: { contentType: 'image/webp', extension: 'webp', args: ['-c:v libwebp_anim', '-loop 0', '-f webp pipe:1'] },
+    apng: { contentType: 'image/apng', extension: 'png', args: ['-c:v apng', '-plays 0', '-f apng pipe:1'] },
+    gif: { contentType: 'image/gif', extension: 'gif', args: ['palettegen=reserve_transparent=1', '-loop 0', '-f gif pipe:1'] },
+    'png-zip': { contentType: 'application/zip', extension: 'zip' },
+};
+
+describe('encoders', () => {
+    test('covers every video format', () => {
+        expect(VIDEO_FORMATS.join(',')).toBe(Object.keys(EXPECTED).join(','));
+    });
+
+    for (const format of VIDEO_FORMATS) {
+        test(`serves and encodes ${format}`, () => {
+            const config = { ...DEFAULT_CONFIG, format, fps: 30, durationSeconds: 4 };
+            const expected = EXPECTED[format];
+            expect(encoderProfile(config).contentType).toBe(expected.contentType);
+            expect(encoderProfile(config).extension).toBe(expected.extension);
+
+            if (!expected.args) {
+                let message = '';
+                try {
+                    getFFmpegArgs(config);
+                } catch (err) {
+                    message = (err as Error).message;
+                }
+                expect(message).toContain('zipped in-process');
+                return;
+            }
+            const args = getFFmpegArgs(config).join(' ');
+            expect(args).toContain('-f image2pipe -r 30 -i -');
+            expect(args).toContain('trim=duration=4');
+            for (const arg of expected.args) {
+                expect(args).toContain(arg);
+            }
+        });
+    }
+
+    test('writes to the file instead of the pipe when saving', () => {
+        const args = getFFmpegArgs({ ...DEFAULT_CONFIG, format: 'mov', save_as_file: true, filename: 'out.mov' }).join(' ');
+        expect(args.endsWith('-f mov out.mov')).toBe(true);
+        expect(args.includes('empty_moov')).toBe(false);
+    });
+
+    test('encodes webm when no format is set', () => {
+        expect(encoderProfile(DEFAULT_CONFIG).contentType).toBe('video/webm');
+        expect(getFFmpegArgs(DEFAULT_CONFIG).join(' ')).toContain('-f webm pipe:1');
+    });
+});
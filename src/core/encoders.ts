@@ -0,0 +1,105 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { closeSync, openSync, writeSync } from 'fs';
+import { PassThrough, type Readable } from 'stream';
+import type { FrameEncoder } from '../models/frame-encoder';
+import type { Config } from '../types/config';
+import type { VideoFormat } from '../types/video-format';
+import { getFFmpegArgs } from './ffmpeg-args';
+import { waitForExit, writeFrame } from './ffmpeg-pipe';
+import { ZipWriter } from './zip';
+
+export interface EncoderProfile {
+    contentType: string;
+    extension: string;
+}
+
+export const ENCODER_PROFILES: Record<VideoFormat, EncoderProfile> = {
+    webm: { contentType: 'video/webm', extension: 'webm' },
+    mov: { contentType: 'video/quicktime', extension: 'mov' },
+    webp: { contentType: 'image/webp', extension: 'webp' },
+    apng: { contentType: 'image/apng', extension: 'png' },
+    gif: { contentType: 'image/gif', extension: 'gif' },
+    'png-zip': { contentType: 'application/zip', extension: 'zip' },
+};
+
+export const VIDEO_FORMATS = Object.keys(ENCODER_PROFILES) as VideoFormat[];
+
+export function isVideoFormat(value: unknown): value is VideoFormat {
+    return VIDEO_FORMATS.includes(value as VideoFormat);
+}
+
+export function encoderProfile(config: Config): EncoderProfile {
+    return ENCODER_PROFILES[config.format ?? 'webm'];
+}
+
+export function createEncoder(config: Config): FrameEncoder {
+    return config.format === 'png-zip' ? new PngZipEncoder(config) : new FFmpegEncoder(config);
+}
+
+class FFmpegEncoder implements FrameEncoder {
+    readonly process: ChildProcessWithoutNullStreams;
+    readonly output: Readable;
+    private finished: Promise<void>;
+    // EPIPE can surface after a successful write(); keep it for the next frame
+    private pipeError: Error | undefined;
+
+    constructor(config: Config) {
+        this.process = spawn('ffmpeg', getFFmpegArgs(config));
+        this.output = this.process.stdout;
+        this.finished = waitForExit(this.process);
+        this.process.stdin.on('error', (err: Error) => { this.pipeError = err; });
+    }
+
+    async writeFrame(png: Buffer): Promise<void> {
+        if (this.pipeError) throw this.pipeError;
+        await writeFrame(this.process, png);
+    }
+
+    async finish(): Promise<void> {
+        this.process.stdin.end();
+        await this.finished;
+    }
+
+    async abort(): Promise<void> {
+        this.process.kill('SIGKILL');
+        // Reap the child; whatever made us abort is the error worth reporting
+        await this.finished.catch(() => undefined);
+    }
+}
+
+/**
+ * Zips the rendered frames as they are, for clients that composite or
+ * re-encode the animation themselves.
+ */
+class PngZipEncoder implements FrameEncoder {
+    readonly output = new PassThrough();
+    private zip = new ZipWriter(this.output);
+    private frameIndex = 0;
+    private saved: Promise<void> | undefined;
+
+    constructor(config: Config) {
+        if (config.save_as_file) {
+            const fd = openSync(config.filename, 'w');
+            this.output.on('data', (chunk: Uint8Array) => writeSync(fd, chunk));
+            this.saved = new Promise<void>((resolve, reject) => {
+                this.output.on('end', resolve);
+                this.output.on('error', reject);
+            });
+            this.output.on('close', () => closeSync(fd));
+        }
+    }
+
+    writeFrame(png: Buffer): Promise<void> {
+        const name = `frame_${String(this.frameIndex++).padStart(5, '0')}.png`;
+        return this.zip.add(name, png);
+    }
+
+    async finish(): Promise<void> {
+        await this.zip.end();
+        await this.saved;
+    }
+
+    async abort(): Promise<void> {
+        this.output.destroy();
+    }
+}
@@ -1,37 +1,100 @@
 import type { Config } from "../types/config";
+import type { VideoFormat } from "../types/video-format";
+
+interface FFmpegProfile {
+    /** Extra filters after the duration trim, in filter_complex syntax */
+    filter?: string;
+    codec: string[];
+    muxer: string;
+    /** Muxer options only needed when the output is not seekable */
+    pipeOptions?: string[];
+}
+
+const PROFILES: Record<Exclude<VideoFormat, 'png-zip'>, FFmpegProfile> = {
+    webm: {
+        codec: [
+            '-c:v', 'libvpx-vp9',
+            // Use CRF mode for better quality-per-byte (lower = better quality, 15-35 is typical range)
+            '-crf', '30',
+            '-b:v', '0',  // Required for CRF mode in VP9
+            '-pix_fmt', 'yuva420p',  // With alpha channel (transparent background)
+            '-auto-alt-ref', '0',
+            // Streaming optimizations
+            '-deadline', 'realtime',  // Fast encoding for streaming
+            '-cpu-used', '8',         // Faster encoding (0-5, higher = faster)
+            '-row-mt', '1',           // Row-based multithreading
+            '-frame-parallel', '1',   // Parallel frame processing
+            '-tile-columns', '2',     // Parallel encoding tiles
+            '-g', '30'                // Keyframe interval for seeking
+        ],
+        muxer: 'webm'
+    },
+    // HEVC with an alpha layer, which Safari and iOS play (VP9 alpha they don't); needs FFmpeg 7.1+
+    mov: {
+        codec: [
+            '-c:v', 'libx265',
+            '-pix_fmt', 'yuva420p',
+            '-crf', '28',
+            '-preset', 'fast',
+            '-tag:v', 'hvc1',  // Apple players refuse the default hev1 tag
+            '-x265-params', 'log-level=error'
+        ],
+        muxer: 'mov',
+        pipeOptions: ['-movflags', 'frag_keyframe+empty_moov']
+    },
+    webp: {
+        codec: [
+            '-c:v', 'libwebp_anim',
+            '-pix_fmt', 'yuva420p',
+            '-quality', '75',
+            '-loop', '0'
+        ],
+        muxer: 'webp'
+    },
+    apng: {
+        codec: [
+            '-c:v', 'apng',
+            '-pix_fmt', 'rgba',
+            '-plays', '0'
+        ],
+        muxer: 'apng'
+    },
+    // One palette for the whole animation, keeping a slot for the transparent background
+    gif: {
+        filter: 'split[frames][stats];[stats]palettegen=reserve_transparent=1[palette];[frames][palette]paletteuse=dither=bayer:bayer_scale=3:alpha_threshold=128',
+        codec: ['-loop', '0'],
+        muxer: 'gif'
+    }
+};
 
 export function getFFmpegArgs(config: Config): string[] {
-	  const ffmpegArgs = [
-                '-y',
-                '-f', 'image2pipe',
-                '-r', `${config.fps}`,
-                '-i', '-',
-                '-filter_complex', 'trim=duration=' + config.durationSeconds + ',setpts=PTS-STARTPTS',  // Limit duration
-                '-shortest',  // Stop when the shortest input (image pipe) ends
-                '-c:v', 'libvpx-vp9',
-                // Use CRF mode for better quality-per-byte (lower = better quality, 15-35 is typical range)
-                '-crf', '30',
-                '-b:v', '0',  // Required for CRF mode in VP9
-                '-pix_fmt', 'yuva420p',  // With alpha channel (transparent background)
-                '-auto-alt-ref', '0',
-                // Streaming optimizations
-                '-deadline', 'realtime',  // Fast encoding for streaming
-                '-cpu-used', '8',         // Faster encoding (0-5, higher = faster)
-                '-row-mt', '1',           // Row-based multithreading
-                '-frame-parallel', '1',   // Parallel frame processing
-                '-tile-columns', '2',     // Parallel encoding tiles
-                '-g', '30'                // Keyframe interval for seeking
-            ];
-    
-            // output decision
-            if (config.save_as_file) {
-                ffmpegArgs.push(config.filename);
-            } else {
-                ffmpegArgs.push(
-                    '-f', 'webm',
-                    'pipe:1'
-                );
-            }
-    
-	return ffmpegArgs;
-}
\ No newline at end of file
+    const format = config.format ?? 'webm';
+    if (format === 'png-zip') {
+        throw new Error('PNG sequences are zipped in-process, not by ffmpeg');
+    }
+    const profile = PROFILES[format];
+
+    const trim = 'trim=duration=' + config.durationSeconds + ',setpts=PTS-STARTPTS';  // Limit duration
+    const ffmpegArgs = [
+        '-y',
+        '-f', 'image2pipe',
+        '-r', `${config.fps}`,
+        '-i', '-',
+        '-filter_complex', profile.filter ? `${trim},${profile.filter}` : trim,
+        '-shortest',  // Stop when the shortest input (image pipe) ends
+        ...profile.codec
+    ];
+
+    // output decision
+    if (config.save_as_file) {
+        ffmpegArgs.push('-f', profile.muxer, config.filename);
+    } else {
+        ffmpegArgs.push(
+            ...(profile.pipeOptions ?? []),
+            '-f', profile.muxer,
+            'pipe:1'
+        );
+    }
+
+    return ffmpegArgs;
+}
@@ -0,0 +1,115 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+
+export function waitForExit(ffmpeg: ChildProcessWithoutNullStreams): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        (ffmpeg as any).on('close', (code: number | null) => {
+            if (code === 0) resolve();
+            else reject(new Error(`FFmpeg exited with code ${code}`));
+        });
+        (ffmpeg as any).on('error', reject);
+    });
+}
+
+/**
+ * Writes one encoded frame, waiting for the pipe to drain when ffmpeg falls
+ * behind. Rejects instead of hanging if ffmpeg goes away mid-render.
+ */
+export function writeFrame(ffmpeg: ChildProcessWithoutNullStreams, buffer: Buffer): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const stdin = ffmpeg.stdin;
+        const cleanup = () => {
+            stdin.off('drain', onDrain);
+            stdin.off('error', onError);
+            stdin.off('close', onClose);
+        };
+        const onDrain = () => { cleanup(); resolve(); };
+        const onError = (err: Error) => { cleanup(); reject(err); };
+        const onClose = () => { cleanup(); reject(new Error('FFmpeg closed its input before all frames were written')); };
+
+        stdin.on('error', onError);
+        if (stdin.write(buffer)) {
+            cleanup();
+            resolve();
+            return;
+        }
+        stdin.on('drain', onDrain);
+        stdin.on('close', onClose);
+    });
+}
+
+/**
+ * Decodes a video into raw RGBA frames of a fixed size, one frame at a time.
+ * Decoding pauses while two frames are buffered, so memory stays bounded no
+ * matter how long the video is.
+ */
+export class VideoFrameReader {
+    readonly frameSize: number;
+    private proc: ChildProcessWithoutNullStreams;
+    private chunks: Uint8Array[] = [];
+    private buffered = 0;
+    private closed = false;
+    private error: Error | undefined;
+    private wake: (() => void) | undefined;
+
+    constructor(videoPath: string, width: number, height: number, fps: number) {
+        this.frameSize = width * height * 4;
+        this.proc = spawn('ffmpeg', [
+            '-v', 'error',
+            '-c:v', 'libvpx-vp9',     // libvpx keeps the alpha channel
+            '-i', videoPath,
+            '-vf', `scale=${width}:${height}:flags=lanczos`,
+            '-r', String(fps),
+            '-f', 'rawvideo',
+            '-pix_fmt', 'rgba',
+            'pipe:1'
+        ]);
+
+        let errorOutput = '';
+        this.proc.stderr.on('data', (data) => { errorOutput += data.toString(); });
+        this.proc.stdout.on('data', (chunk: Uint8Array) => {
+            this.chunks.push(chunk);
+            this.buffered += chunk.length;
+            if (this.buffered >= this.frameSize * 2) this.proc.stdout.pause();
+            this.notify();
+        });
+        (this.proc as any).on('error', (err: Error) => {
+            this.error = err;
+            this.closed = true;
+            this.notify();
+        });
+        (this.proc as any).on('close', (code: number | null) => {
+            if (code !== 0 && !this.error) {
+                this.error = new Error(`Decoding ${videoPath} failed (code ${code}): ${errorOutput.trim()}`);
+            }
+            this.closed = true;
+            this.notify();
+        });
+    }
+
+    /** Next frame, or undefined once the video has ended. */
+    async next(): Promise<Buffer | undefined> {
+        while (this.buffered < this.frameSize && !this.closed) {
+            await new Promise<void>(resolve => { this.wake = resolve; });
+        }
+        if (this.error) throw this.error;
+        if (this.buffered < this.frameSize) return undefined;
+
+        const all = Buffer.concat(this.chunks);
+        const frame = all.subarray(0, this.frameSize);
+        const rest = all.subarray(this.frameSize);
+        this.chunks = rest.length > 0 ? [new Uint8Array(rest)] : [];
+        this.buffered = rest.length;
+        if (this.buffered < this.frameSize * 2) this.proc.stdout.resume();
+        return frame;
+    }
+
+    close() {
+        if (!this.closed) this.proc.kill('SIGKILL');
+    }
+
+    private notify() {
+        const wake = this.wake;
+        this.wake = undefined;
+        wake?.();
+    }
+}
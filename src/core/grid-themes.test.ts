@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { extendTheme, FROST_THEME, GRID_THEMES, loadGridThemes, validateTheme } from './grid-themes';
+
+describe('grid themes', () => {
+    test('extends a theme one material at a time', () => {
+        const theme = extendTheme(FROST_THEME, { name: 'pink', palette: { grass: { top: '#FF00FF' } } });
+        expect(theme.palette.grass.top).toBe('#FF00FF');
+        expect(theme.palette.grass.sideDark).toBe(FROST_THEME.palette.grass.sideDark);
+        expect(theme.palette.water.top).toBe(FROST_THEME.palette.water.top);
+        expect(FROST_THEME.palette.grass.top).toBe('#E8F0F8');
+    });
+
+    test('reports every problem in a theme file', () => {
+        const problems = validateTheme({
+            name: 'Bad Name',
+            extends: 'missing',
+            palette: { lava: {}, grass: { top: 'red' } },
+            wave: { amplitude: -1 },
+            colour: '#000000',
+        }, GRID_THEMES);
+        expect(problems.length).toBe(6);
+        expect(problems.join('\n')).toContain('"palette.grass.top" must be a #rrggbb colour');
+    });
+
+    test('loads theme files on top of the built-in themes', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'grid-themes-'));
+        try {
+            await writeFile(path.join(directory, 'dusk.json'), JSON.stringify({
+                name: 'dusk',
+                extends: 'night',
+                background: '#201028',
+            }));
+            const themes = await loadGridThemes(directory);
+            expect(themes.get('dusk')!.background).toBe('#201028');
+            expect(themes.get('dusk')!.palette.grass.top).toBe(GRID_THEMES.get('night')!.palette.grass.top);
+            expect(themes.has('frost')).toBe(true);
+
+            await writeFile(path.join(directory, 'frost.json'), JSON.stringify({ name: 'frost' }));
+            let message = '';
+            await loadGridThemes(directory).catch(err => { message = err.message; });
+            expect(message).toContain('duplicate theme name "frost"');
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    test('loads a theme extending a file that sorts after it', async () => {
+        const directory = await mkdtemp(path.join(tmpdir(), 'grid-themes-'));
+        try {
+            await writeFile(path.join(directory, 'a-blossom.json'), JSON.stringify({ name: 'blossom', extends: 'petal', shadowColor: 'rgba(0, 0, 0, 0.2)' }));
+            await writeFile(path.join(directory, 'b-petal.json'), JSON.stringify({ name: 'petal', extends: 'meadow', background: '#FFF0F5' }));
+            const themes = await loadGridThemes(directory);
+            expect(themes.get('blossom')!.background).toBe('#FFF0F5');
+            expect(themes.get('blossom')!.shadowColor).toBe('rgba(0, 0, 0, 0.2)');
+
+            await writeFile(path.join(directory, 'b-petal.json'), JSON.stringify({ name: 'petal', extends: 'blossom' }));
+            let message = '';
+            await loadGridThemes(directory).catch(err => { message = err.message; });
+            expect(message).toContain('a-blossom.json: "extends" must be one of');
+            expect(message).toContain('b-petal.json: "extends" must be one of');
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,227 @@
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import * as path from 'path';
+import type { GridTheme, GridThemeOverrides, TileMaterial, TilePalette } from '../types/grid-theme';
+
+export const TILE_MATERIALS: TileMaterial[] = ['grass', 'water', 'stone', 'sand', 'snow'];
+
+/** The pale, wintry look grids have always had. */
+export const FROST_THEME: GridTheme = {
+    name: 'frost',
+    palette: {
+        grass: { top: '#E8F0F8', sideLight: '#D4E2ED', sideDark: '#C5D6E3', detail: '#B8CCDB', gridStroke: '#CDE0EC' },
+        water: { top: '#A9CDE6', sideLight: '#93BCDA', sideDark: '#80ACCD', detail: '#E2F0F9', gridStroke: '#9CC4E0' },
+        stone: { top: '#CDD1D5', sideLight: '#B9BEC3', sideDark: '#A8AEB4', detail: '#A0A7AE', gridStroke: '#C0C5CA' },
+        sand: { top: '#F0E6CF', sideLight: '#E3D6B9', sideDark: '#D6C7A6', detail: '#CDBB93', gridStroke: '#E6DABF' },
+        snow: { top: '#FBFDFF', sideLight: '#EEF4F9', sideDark: '#E1EAF2', detail: '#D5E1EC', gridStroke: '#EAF1F7' },
+    },
+    soil: { sideLight: '#8B9298', sideDark: '#6E757A', strata: '#5F666B' },
+    tuft: { lineWidth: 2, size: 6, chance: 0.5 },
+    shadowColor: 'rgba(40, 60, 20, 0.066)',
+    wave: { amplitude: 3, frequency: 2 },
+};
+
+/**
+ * Applies `overrides` on top of `base`, material by material.
+ */
+export function extendTheme(base: GridTheme, overrides: GridThemeOverrides): GridTheme {
+    const palette = { ...base.palette };
+    for (const material of TILE_MATERIALS) {
+        palette[material] = { ...base.palette[material], ...overrides.palette?.[material] };
+    }
+    return {
+        name: overrides.name,
+        palette,
+        soil: { ...base.soil, ...overrides.soil },
+        tuft: { ...base.tuft, ...overrides.tuft },
+        shadowColor: overrides.shadowColor ?? base.shadowColor,
+        wave: { ...base.wave, ...overrides.wave },
+        background: overrides.background ?? base.background,
+    };
+}
+
+export const GRID_THEMES: ReadonlyMap<string, GridTheme> = new Map([
+    FROST_THEME,
+    extendTheme(FROST_THEME, {
+        name: 'meadow',
+        palette: {
+            grass: { top: '#B5D99C', sideLight: '#A0C986', sideDark: '#8DB874', detail: '#7AA862', gridStroke: '#A8CF8E' },
+            water: { top: '#8CC3E6', sideLight: '#76B1D9', sideDark: '#639FCB', detail: '#D9EEFA' },
+        },
+        soil: { sideLight: '#8E6E52', sideDark: '#785C43', strata: '#614A35' },
+        shadowColor: 'rgba(30, 50, 10, 0.15)',
+    }),
+    extendTheme(FROST_THEME, {
+        name: 'desert',
+        palette: {
+            grass: { top: '#E4D3A4', sideLight: '#D6C18E', sideDark: '#C8B07C', detail: '#B39B62', gridStroke: '#DAC896' },
+            sand: { top: '#F2DDB0', sideLight: '#E6CC98', sideDark: '#D9BB83', detail: '#C9A66A', gridStroke: '#EBD3A2' },
+        },
+        soil: { sideLight: '#B8835B', sideDark: '#9D6D48', strata: '#805637' },
+        tuft: { chance: 0.2 },
+        shadowColor: 'rgba(80, 50, 20, 0.12)',
+        wave: { amplitude: 2, frequency: 3 },
+    }),
+    extendTheme(FROST_THEME, {
+        name: 'night',
+        palette: {
+            grass: { top: '#3F5D78', sideLight: '#35526B', sideDark: '#2C465D', detail: '#5C7D9A', gridStroke: '#4B6B88' },
+            water: { top: '#26466A', sideLight: '#203D5E', sideDark: '#1A3452', detail: '#6F97C2', gridStroke: '#2F5278' },
+            stone: { top: '#4E5661', sideLight: '#444B55', sideDark: '#3A4049', detail: '#5F6875', gridStroke: '#565F6B' },
+            sand: { top: '#6B6350', sideLight: '#5E5746', sideDark: '#524C3D', detail: '#7E7560', gridStroke: '#746B57' },
+            snow: { top: '#A9B8CA', sideLight: '#97A7BA', sideDark: '#8797AB', detail: '#C3D0DF', gridStroke: '#B3C1D2' },
+        },
+        soil: { sideLight: '#2F3541', sideDark: '#262B35', strata: '#1D2129' },
+        shadowColor: 'rgba(0, 0, 0, 0.25)',
+        background: '#141B26',
+    }),
+].map(theme => [theme.name, theme]));
+
+export const DEFAULT_GRID_THEME = FROST_THEME;
+
+const NAME_PATTERN = /^[a-z0-9_-]+$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const KNOWN_KEYS = new Set(['name', 'extends', 'palette', 'soil', 'tuft', 'shadowColor', 'wave', 'background']);
+const PALETTE_KEYS: (keyof TilePalette)[] = ['top', 'sideLight', 'sideDark', 'detail', 'gridStroke'];
+
+/**
+ * The built-in themes plus every `*.json` theme in `directory`. A theme file
+ * names the theme it changes in `extends` (frost when omitted), which may be
+ * another file, and lists only what differs. All problems are reported
+ * together.
+ */
+export async function loadGridThemes(directory: string): Promise<Map<string, GridTheme>> {
+    const themes = new Map(GRID_THEMES);
+    if (!existsSync(directory)) {
+        return themes;
+    }
+
+    const files = (await readdir(directory)).filter(name => path.extname(name) === '.json').sort();
+    const errors: string[] = [];
+    let pending: { name: string, raw: unknown }[] = [];
+    for (const name of files) {
+        try {
+            pending.push({ name, raw: JSON.parse(await readFile(path.join(directory, name), 'utf-8')) });
+        } catch (err) {
+            errors.push(`${name}: could not be read (${err instanceof Error ? err.message : err})`);
+        }
+    }
+
+    const add = ({ name, raw }: { name: string, raw: unknown }) => {
+        const problems = validateTheme(raw, themes);
+        if (problems.length > 0) {
+            errors.push(...problems.map(p => `${name}: ${p}`));
+            return;
+        }
+        const { extends: baseName = FROST_THEME.name, ...overrides } = raw as GridThemeOverrides & { extends?: string };
+        if (themes.has(overrides.name)) {
+            errors.push(`${name}: duplicate theme name "${overrides.name}"`);
+            return;
+        }
+        themes.set(overrides.name, extendTheme(themes.get(baseName)!, overrides));
+    };
+
+    // A theme loads once the one it extends has; whatever is left after a
+    // pass that loaded nothing extends a missing, broken or circular theme
+    while (pending.length > 0) {
+        const waiting = pending.filter(({ raw }) => isObject(raw) && typeof raw.extends === 'string' && !themes.has(raw.extends));
+        if (waiting.length === pending.length) {
+            break;
+        }
+        pending.filter(entry => !waiting.includes(entry)).forEach(add);
+        pending = waiting;
+    }
+    pending.forEach(add);
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid grid themes in ${directory}:\n  - ${errors.join('\n  - ')}`);
+    }
+    return themes;
+}
+
+/**
+ * Returns a list of problems with a theme file; empty when it is valid.
+ * `known` holds the themes it may extend.
+ */
+export function validateTheme(raw: unknown, known: ReadonlyMap<string, GridTheme>): string[] {
+    if (!isObject(raw)) {
+        return ['theme must be an object'];
+    }
+
+    const problems: string[] = [];
+    for (const key of Object.keys(raw)) {
+        if (!KNOWN_KEYS.has(key)) problems.push(`unknown field "${key}"`);
+    }
+    if (typeof raw.name !== 'string' || !NAME_PATTERN.test(raw.name)) {
+        problems.push('"name" must be a string of lowercase letters, digits, dashes and underscores');
+    }
+    if (raw.extends !== undefined && (typeof raw.extends !== 'string' || !known.has(raw.extends))) {
+        problems.push(`"extends" must be one of: ${Array.from(known.keys()).join(', ')}`);
+    }
+
+    if (raw.palette !== undefined) {
+        if (!isObject(raw.palette)) {
+            problems.push('"palette" must be an object');
+        } else {
+            for (const [material, colors] of Object.entries(raw.palette)) {
+                if (!TILE_MATERIALS.includes(material as TileMaterial)) {
+                    problems.push(`"palette.${material}" is not a material; use one of: ${TILE_MATERIALS.join(', ')}`);
+                } else if (!isObject(colors)) {
+                    problems.push(`"palette.${material}" must be an object`);
+                } else {
+                    for (const [key, color] of Object.entries(colors)) {
+                        if (!PALETTE_KEYS.includes(key as keyof TilePalette)) {
+                            problems.push(`unknown field "palette.${material}.${key}"`);
+                        } else if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+                            problems.push(`"palette.${material}.${key}" must be a #rrggbb colour`);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    problems.push(...validateGroup(raw, 'soil', ['sideLight', 'sideDark', 'strata'], value => typeof value === 'string' && HEX_COLOR.test(value), 'a #rrggbb colour'));
+    problems.push(...validateGroup(raw, 'tuft', ['lineWidth', 'size'], isPositive, 'a positive number'));
+    problems.push(...validateGroup(raw, 'wave', ['amplitude', 'frequency'], value => isPositive(value) || value === 0, 'a non-negative number'));
+    if (isObject(raw.tuft) && raw.tuft.chance !== undefined
+        && (typeof raw.tuft.chance !== 'number' || raw.tuft.chance < 0 || raw.tuft.chance > 1)) {
+        problems.push('"tuft.chance" must be a number from 0 to 1');
+    }
+    for (const key of ['shadowColor', 'background'] as const) {
+        if (raw[key] !== undefined && (typeof raw[key] !== 'string' || raw[key].trim() === '')) {
+            problems.push(`"${key}" must be a CSS colour string`);
+        }
+    }
+
+    return problems;
+}
+
+function validateGroup(raw: Record<string, unknown>, group: string, keys: string[], valid: (value: unknown) => boolean, expected: string): string[] {
+    const value = raw[group];
+    if (value === undefined) {
+        return [];
+    }
+    if (!isObject(value)) {
+        return [`"${group}" must be an object`];
+    }
+    const problems: string[] = [];
+    for (const [key, field] of Object.entries(value)) {
+        // tuft.chance has its own range
+        if (group === 'tuft' && key === 'chance') continue;
+        if (!keys.includes(key)) {
+            problems.push(`unknown field "${group}.${key}"`);
+        } else if (!valid(field)) {
+            problems.push(`"${group}.${key}" must be ${expected}`);
+        }
+    }
+    return problems;
+}
+
+function isPositive(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import { assertTreesOnTiles, createGridLayout, generateGridPositions, neighbourMaterials, planTileLayers, rectangleTiles, SCALE, sortPositionsForRendering, type GridTile } from './grid';
+
+const positionsOf = (tiles: GridTile[]) => generateGridPositions(createGridLayout(tiles), tiles);
+
+describe('grid layouts', () => {
+  test('crops a strip to a wide canvas', () => {
+    const strip = createGridLayout(rectangleTiles(10, 1));
+    const square = createGridLayout(rectangleTiles(10, 10));
+    expect(strip.canvasWidth < square.canvasWidth).toBe(true);
+    expect(strip.canvasHeight < strip.canvasWidth).toBe(true);
+  });
+
+  test('only positions tiles that exist', () => {
+    const tiles = rectangleTiles(3, 3).filter(tile => !(tile.gridX === 1 && tile.gridY === 1));
+    const positions = positionsOf(tiles);
+    expect(positions.length).toBe(8);
+    expect(positions.some(pos => pos.gridX === 1 && pos.gridY === 1)).toBe(false);
+  });
+
+  test('rejects a tile given twice', () => {
+    let message = '';
+    try {
+      createGridLayout([...rectangleTiles(2, 2), { gridX: 1, gridY: 0, material: 'water' }]);
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('(1, 0)');
+  });
+
+  test('keeps every tile on the canvas', () => {
+    const tiles = [{ gridX: 5, gridY: 0 }, { gridX: 0, gridY: 5 }, { gridX: 5, gridY: 5 }];
+    const layout = createGridLayout(tiles);
+    for (const pos of generateGridPositions(layout, tiles)) {
+      expect(pos.pixelX > 0 && pos.pixelX < layout.canvasWidth).toBe(true);
+      expect(pos.pixelY > 0 && pos.pixelY < layout.canvasHeight).toBe(true);
+    }
+  });
+
+  test('scales every size and never changes', () => {
+    const tiles = rectangleTiles(2, 2);
+    const normal = createGridLayout(tiles);
+    const double = createGridLayout(tiles, SCALE * 2);
+    expect(double.tileWidth).toBe(normal.tileWidth * 2);
+    expect(double.canvasWidth).toBe(normal.canvasWidth * 2);
+    expect(generateGridPositions(double, tiles)[3]!.pixelY).toBe(generateGridPositions(normal, tiles)[3]!.pixelY * 2);
+    expect(Object.isFrozen(normal)).toBe(true);
+  });
+
+  test('rejects trees off the tiles', () => {
+    let message = '';
+    try {
+      assertTreesOnTiles([{ gridX: 1, gridY: 1 }], rectangleTiles(2, 1));
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('1,1');
+  });
+
+  test('rejects two trees on one tile', () => {
+    let message = '';
+    try {
+      assertTreesOnTiles([{ gridX: 1, gridY: 0 }, { gridX: 1, gridY: 0 }], rectangleTiles(2, 1));
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('more than once');
+  });
+
+  test('lifts raised tiles and their trees', () => {
+    const flat = positionsOf([{ gridX: 0, gridY: 0 }, { gridX: 1, gridY: 0 }]);
+    const raised = positionsOf([{ gridX: 0, gridY: 0 }, { gridX: 1, gridY: 0, elevation: 2 }]);
+    const drop = (positions: typeof flat) => positions[1]!.pixelY - positions[0]!.pixelY;
+    expect(drop(flat) - drop(raised)).toBe(2 * createGridLayout(rectangleTiles(1, 1)).levelHeight);
+    expect(raised[1]!.elevation).toBe(2);
+  });
+
+  test('draws nearer rows last whatever their height', () => {
+    const tiles = [{ gridX: 1, gridY: 1 }, { gridX: 0, gridY: 0, elevation: 3 }, { gridX: 2, gridY: 0, elevation: 1 }];
+    const order = sortPositionsForRendering(positionsOf(tiles)).map(pos => `${pos.gridX},${pos.gridY}`);
+    expect(order.join(' ')).toBe('0,0 1,1 2,0');
+  });
+
+  test('blends only into level neighbours of another material', () => {
+    const positions = positionsOf([
+      { gridX: 1, gridY: 1 },
+      { gridX: 1, gridY: 0, material: 'water' },
+      { gridX: 2, gridY: 1, material: 'stone', elevation: 1 },
+      { gridX: 1, gridY: 2 },
+    ]);
+    const edges = neighbourMaterials(positions).get(positions[0]!)!;
+    expect(edges.map(material => material ?? '-').join(' ')).toBe('water - - -');
+  });
+
+  test('keeps trees off water', () => {
+    let message = '';
+    try {
+      assertTreesOnTiles([{ gridX: 0, gridY: 0 }], [{ gridX: 0, gridY: 0, material: 'water' }]);
+    } catch (err) {
+      message = (err as Error).message;
+    }
+    expect(message).toContain('water');
+  });
+
+  test('shares tile layers between rows without trees or water', () => {
+    const tiles = rectangleTiles(10, 10);
+    const layout = createGridLayout(tiles);
+    const positions = sortPositionsForRendering(generateGridPositions(layout, tiles));
+    const treeRows = new Set([3, 9, 14]);
+    const layers = planTileLayers(layout, positions, depth => treeRows.has(depth));
+    expect(layers.length).toBe(treeRows.size + 1);
+    expect(layers.reduce((sum, layer) => sum + layer.positions.length, 0)).toBe(tiles.length);
+    const area = layers.reduce((sum, layer) => sum + layer.width * layer.height, 0);
+    expect(area < 2 * layout.canvasWidth * layout.canvasHeight).toBe(true);
+  });
+});
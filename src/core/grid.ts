@@ -1,42 +1,60 @@
 import { createCanvas } from '@napi-rs/canvas';
+import { DEFAULT_GRID_THEME } from './grid-themes';
+import type { GridTheme, TileMaterial } from '../types/grid-theme';
 
+// Default resolution multiplier of grid renders
 export const SCALE = 4;
 
-export const GRID_CONFIG = {
-  tileWidth: 100 * SCALE,
-  grassHeight: 15 * SCALE,
-  soilHeight: 40 * SCALE,
-  // These will be set dynamically based on grid size
-  gridSize: 0,
-  canvasWidth: 0,
-  canvasHeight: 0,
-};
+/** Tile sizes in pixels at 1x; a layout multiplies them by its scale. */
+export const TILE_DIMENSIONS = Object.freeze({
+  tileWidth: 100,
+  grassHeight: 15,
+  soilHeight: 40,
+  // Height of one elevation level; raised tiles stack this much extra soil
+  levelHeight: 20,
+});
 
-export const COLORS = {
-    grass: {
-        top: '#E8F0F8',
-        sideLight: '#D4E2ED',
-        sideDark: '#C5D6E3',
-        tuft: '#B8CCDB',
-        gridStroke: '#CDE0EC'
-    },
-    soil: {
-        sideLight: '#8B9298',
-        sideDark: '#6E757A',
-    }
+// Room around the tiles at 1x: trees stand up to 150px above the back row
+const GRID_MARGIN = {
+  top: 150,
+  side: 50,
+  bottom: 50,
 };
 
+/**
+ * Geometry of one grid render, made by `createGridLayout` and passed to
+ * every function here that measures or draws, so nothing about a render
+ * lives in shared state. Frozen; make a new one for a different grid.
+ */
+export interface GridLayout {
+  readonly scale: number;
+  readonly tileWidth: number;
+  /** Height of a top face, half its width. */
+  readonly tileHeight: number;
+  readonly grassHeight: number;
+  readonly soilHeight: number;
+  readonly levelHeight: number;
+  readonly canvasWidth: number;
+  readonly canvasHeight: number;
+  /** Canvas position of the top face center of tile 0,0 at ground level. */
+  readonly originX: number;
+  readonly originY: number;
+}
+
 export interface GridPosition {
   gridX: number;
   gridY: number;
+  /** Center of the tile's top face, where a tree stands. */
   pixelX: number;
   pixelY: number;
+  elevation: number;
+  material: TileMaterial;
 }
 
 /**
  * Draws a filled polygon.
  */
-export function drawPoly(ctx: any, points: {x: number, y: number}[], color: string, strokeColor?: string) {
+export function drawPoly(ctx: any, layout: GridLayout, points: {x: number, y: number}[], color: string, strokeColor?: string) {
   if (points.length === 0) return;
   
   ctx.beginPath();
@@ -50,26 +68,26 @@ export function drawPoly(ctx: any, points: {x: number, y: number}[], color: stri
   ctx.fill();
 
   ctx.strokeStyle = strokeColor || color;
-  ctx.lineWidth = 1 * SCALE;
+  ctx.lineWidth = 1 * layout.scale;
   ctx.stroke();
 }
 
-export function drawShadow(ctx: any, centerX: number, centerY: number, contentWidth?: number) {
+export function drawShadow(ctx: any, layout: GridLayout, centerX: number, centerY: number, contentWidth?: number, theme: GridTheme = DEFAULT_GRID_THEME) {
   ctx.beginPath();
   // Use content width if provided, otherwise use default
-  const radiusX = contentWidth ? contentWidth / 2 : GRID_CONFIG.tileWidth / 4.5;
+  const radiusX = contentWidth ? contentWidth / 2 : layout.tileWidth / 4.5;
   const radiusY = radiusX / 2.5; // Maintain proportional height
   ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-  ctx.fillStyle = 'rgba(40, 60, 20, 0.066)'; // A dark, semi-transparent green
+  ctx.fillStyle = theme.shadowColor;
   ctx.fill();
 }
 
-function drawTuft(ctx: any, centerX: number, centerY: number) {
-  ctx.strokeStyle = COLORS.grass.tuft;
-  ctx.lineWidth = 2 * SCALE;
+function drawTuft(ctx: any, layout: GridLayout, centerX: number, centerY: number, theme: GridTheme) {
+  ctx.strokeStyle = theme.palette.grass.detail;
+  ctx.lineWidth = theme.tuft.lineWidth * layout.scale;
   ctx.lineCap = 'round';
   
-  const size = 6 * SCALE;
+  const size = theme.tuft.size * layout.scale;
   
   ctx.beginPath();
   ctx.moveTo(centerX - size, centerY - size/2);
@@ -171,7 +189,13 @@ export function detectTreeContentPosition(image: any): { xOffset: number, yPaddi
 export interface DrawIsoBlockOptions {
   hasShadow?: boolean;
   shadowWidth?: number;
+  /** Draws the material's detail: tufts, ripples, cobbles, speckles or drifts. */
   drawTufts?: boolean;
+  /** Water only: ripple phase from 0 to 1; defaults to one fixed per tile. */
+  ripplePhase?: number;
+  /** Materials across each top edge to blend towards, from `neighbourMaterials`. */
+  neighbours?: EdgeMaterials;
+  theme?: GridTheme;
   gridX?: number;
   gridY?: number;
 }
@@ -221,9 +245,8 @@ function generateWavyEdge(
   return points;
 }
 
-// Shared wave parameters for consistent grass-soil transition
-const WAVE_AMPLITUDE = 3 * SCALE;
-const WAVE_FREQUENCY = 2; // Number of complete waves along the edge
+// Grass and soil use the same wave so their edges meet; amplitude and
+// frequency (complete waves along the edge) come from the theme
 const WAVE_SEGMENTS = 16;
 
 /**
@@ -231,6 +254,8 @@ const WAVE_SEGMENTS = 16;
  */
 function drawWavyGrassSide(
   ctx: any,
+  layout: GridLayout,
+  wave: GridTheme['wave'],
   topLeft: {x: number, y: number},
   topRight: {x: number, y: number},
   bottomRight: {x: number, y: number},
@@ -242,8 +267,8 @@ function drawWavyGrassSide(
   const wavyBottom = generateWavyEdge(
     bottomLeft.x, bottomLeft.y,
     bottomRight.x, bottomRight.y,
-    WAVE_AMPLITUDE,
-    WAVE_FREQUENCY,
+    wave.amplitude * layout.scale,
+    wave.frequency,
     WAVE_SEGMENTS
   );
   
@@ -267,7 +292,7 @@ function drawWavyGrassSide(
   ctx.fill();
   
   ctx.strokeStyle = strokeColor || color;
-  ctx.lineWidth = 1 * SCALE;
+  ctx.lineWidth = 1 * layout.scale;
   ctx.stroke();
 }
 
@@ -276,6 +301,8 @@ function drawWavyGrassSide(
  */
 function drawWavySoilSide(
   ctx: any,
+  layout: GridLayout,
+  wave: GridTheme['wave'],
   topLeft: {x: number, y: number},
   topRight: {x: number, y: number},
   bottomRight: {x: number, y: number},
@@ -288,8 +315,8 @@ function drawWavySoilSide(
   const wavyTop = generateWavyEdge(
     topLeft.x, topLeft.y,
     topRight.x, topRight.y,
-    WAVE_AMPLITUDE,
-    WAVE_FREQUENCY,
+    wave.amplitude * layout.scale,
+    wave.frequency,
     WAVE_SEGMENTS
   );
   
@@ -311,56 +338,243 @@ function drawWavySoilSide(
   ctx.fill();
   
   ctx.strokeStyle = strokeColor || color;
-  ctx.lineWidth = 1 * SCALE;
+  ctx.lineWidth = 1 * layout.scale;
+  ctx.stroke();
+}
+
+function drawStrata(ctx: any, layout: GridLayout, pixelX: number, soilY: number, levels: number, theme: GridTheme) {
+  const w = layout.tileWidth;
+  const h = layout.tileHeight;
+  ctx.strokeStyle = theme.soil.strata;
+  ctx.lineWidth = 1 * layout.scale;
+  for (let level = 1; level <= levels; level++) {
+    const y = soilY + level * layout.levelHeight;
+    ctx.beginPath();
+    ctx.moveTo(pixelX - w / 2, y + h / 2);
+    ctx.lineTo(pixelX, y + h);
+    ctx.lineTo(pixelX + w / 2, y + h / 2);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Stable pseudo-random value in [0, 1) for a tile; `salt` gives more per tile.
+ */
+function tileNoise(gridX: number, gridY: number, salt: number = 0): number {
+  const seed = Math.sin(gridX * 12.9898 + gridY * 78.233 + salt * 37.719) * 43758.5453;
+  return seed - Math.floor(seed);
+}
+
+/**
+ * A point on the tile's top face, with `u` and `v` from -0.5 to 0.5 along
+ * its two edges.
+ */
+function topFacePoint(layout: GridLayout, pixelX: number, pixelY: number, u: number, v: number): { x: number, y: number } {
+  const w = layout.tileWidth;
+  return {
+    x: pixelX + (u - v) * (w / 2),
+    y: pixelY + (u + v) * (w / 4),
+  };
+}
+
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+/**
+ * Draws two rings spreading over a water tile; `phase` runs from 0 to 1 and
+ * loops seamlessly.
+ */
+export function drawWaterRipple(ctx: any, layout: GridLayout, pos: GridPosition, phase: number, theme: GridTheme = DEFAULT_GRID_THEME) {
+  const { gridX, gridY, pixelX, pixelY } = pos;
+  const center = topFacePoint(layout, pixelX, pixelY, (tileNoise(gridX, gridY, 1) - 0.5) * 0.2, (tileNoise(gridX, gridY, 2) - 0.5) * 0.2);
+  ctx.save();
+  ctx.strokeStyle = theme.palette.water.detail;
+  ctx.lineWidth = 1.5 * layout.scale;
+  for (let ring = 0; ring < 2; ring++) {
+    const t = (phase + ring / 2) % 1;
+    const radiusX = (0.08 + 0.3 * t) * layout.tileWidth / 2;
+    ctx.globalAlpha = 1 - t;
+    ctx.beginPath();
+    ctx.ellipse(center.x, center.y, radiusX, radiusX / 2, 0, 0, 2 * Math.PI);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function drawCobbles(ctx: any, layout: GridLayout, pos: GridPosition, theme: GridTheme) {
+  const { gridX, gridY, pixelX, pixelY } = pos;
+  ctx.fillStyle = theme.palette.stone.detail;
+  for (let i = 0; i < 5; i++) {
+    const point = topFacePoint(layout, pixelX, pixelY, tileNoise(gridX, gridY, i * 2 + 1) * 0.7 - 0.35, tileNoise(gridX, gridY, i * 2 + 2) * 0.7 - 0.35);
+    const radiusX = (4 + tileNoise(gridX, gridY, i + 20) * 4) * layout.scale;
+    ctx.beginPath();
+    ctx.ellipse(point.x, point.y, radiusX, radiusX / 2, 0, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+}
+
+function drawSpeckles(ctx: any, layout: GridLayout, pos: GridPosition, theme: GridTheme) {
+  const { gridX, gridY, pixelX, pixelY } = pos;
+  ctx.fillStyle = theme.palette.sand.detail;
+  for (let i = 0; i < 8; i++) {
+    const point = topFacePoint(layout, pixelX, pixelY, tileNoise(gridX, gridY, i * 2 + 1) * 0.8 - 0.4, tileNoise(gridX, gridY, i * 2 + 2) * 0.8 - 0.4);
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 1.5 * layout.scale, 0, 2 * Math.PI);
+    ctx.fill();
+  }
+}
+
+function drawDrift(ctx: any, layout: GridLayout, pos: GridPosition, theme: GridTheme) {
+  const { gridX, gridY, pixelX, pixelY } = pos;
+  const point = topFacePoint(layout, pixelX, pixelY, tileNoise(gridX, gridY, 1) * 0.4 - 0.2, tileNoise(gridX, gridY, 2) * 0.4 - 0.2);
+  const size = 10 * layout.scale;
+  ctx.strokeStyle = theme.palette.snow.detail;
+  ctx.lineWidth = 2 * layout.scale;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(point.x - size, point.y);
+  ctx.quadraticCurveTo(point.x, point.y - size / 2, point.x + size, point.y);
   ctx.stroke();
 }
 
-export function drawIsoBlock(ctx: any, pos: GridPosition, options: DrawIsoBlockOptions = {}) {
+function drawDetail(ctx: any, layout: GridLayout, pos: GridPosition, theme: GridTheme, ripplePhase?: number) {
   const { gridX, gridY, pixelX, pixelY } = pos;
-  const { hasShadow = false, shadowWidth, drawTufts = false } = options;
+  switch (pos.material) {
+    case 'grass': {
+      const seed = Math.sin(gridX * 12.9898 + gridY * 78.233) * 43758.5453;
+      if ((seed - Math.floor(seed)) > 1 - theme.tuft.chance) {
+        const randX = (seed * 10) % (20 * layout.scale) - (10 * layout.scale);
+        const randY = (seed * 20) % (10 * layout.scale) - (5 * layout.scale);
+        drawTuft(ctx, layout, pixelX + randX, pixelY + randY, theme);
+      }
+      break;
+    }
+    case 'water':
+      drawWaterRipple(ctx, layout, pos, ripplePhase ?? tileNoise(gridX, gridY), theme);
+      break;
+    case 'stone':
+      drawCobbles(ctx, layout, pos, theme);
+      break;
+    case 'sand':
+      drawSpeckles(ctx, layout, pos, theme);
+      break;
+    case 'snow':
+      drawDrift(ctx, layout, pos, theme);
+      break;
+  }
+}
 
-  const w = GRID_CONFIG.tileWidth;
-  const h = GRID_CONFIG.tileWidth / 2;
+/**
+ * Material of the neighbour across each top edge, clockwise from the back
+ * corner: gridY - 1, gridX + 1, gridY + 1, gridX - 1. Only set where the
+ * neighbour is level with the tile and made of something else.
+ */
+export type EdgeMaterials = (TileMaterial | undefined)[];
+
+/**
+ * Finds what each position's top edges should blend towards.
+ */
+export function neighbourMaterials(positions: GridPosition[]): Map<GridPosition, EdgeMaterials> {
+  const byKey = new Map(positions.map(pos => [`${pos.gridX},${pos.gridY}`, pos]));
+  const result = new Map<GridPosition, EdgeMaterials>();
+  for (const pos of positions) {
+    const offsets = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+    result.set(pos, offsets.map(([dx, dy]) => {
+      const neighbour = byKey.get(`${pos.gridX + dx},${pos.gridY + dy}`);
+      if (!neighbour || neighbour.elevation !== pos.elevation || neighbour.material === pos.material) {
+        return undefined;
+      }
+      return neighbour.material;
+    }));
+  }
+  return result;
+}
+
+/**
+ * Fades each top edge into the neighbouring material so tiles of different
+ * materials meet softly.
+ */
+function drawEdgeBlends(ctx: any, topVerts: { x: number, y: number }[], center: { x: number, y: number }, neighbours: EdgeMaterials, theme: GridTheme) {
+  for (let edge = 0; edge < 4; edge++) {
+    const material = neighbours[edge];
+    if (!material) continue;
+    const start = topVerts[edge]!;
+    const end = topVerts[(edge + 1) % 4]!;
+    const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    // Fade along the edge's inward normal so the blend runs parallel to it
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+    const reach = ((center.x - mid.x) * normal.x + (center.y - mid.y) * normal.y) * 0.8;
+    const gradient = ctx.createLinearGradient(mid.x, mid.y, mid.x + normal.x * reach, mid.y + normal.y * reach);
+    gradient.addColorStop(0, withAlpha(theme.palette[material].top, 0.6));
+    gradient.addColorStop(1, withAlpha(theme.palette[material].top, 0));
+    ctx.beginPath();
+    ctx.moveTo(topVerts[0]!.x, topVerts[0]!.y);
+    for (let i = 1; i < topVerts.length; i++) {
+      ctx.lineTo(topVerts[i]!.x, topVerts[i]!.y);
+    }
+    ctx.closePath();
+    ctx.fillStyle = gradient;
+    ctx.fill();
+  }
+}
+
+/**
+ * Draws a tile block. Raised tiles reach down to ground level with one soil
+ * layer per elevation level under the material's top layer.
+ */
+export function drawIsoBlock(ctx: any, layout: GridLayout, pos: GridPosition, options: DrawIsoBlockOptions = {}) {
+  const { pixelX, pixelY, elevation } = pos;
+  const { hasShadow = false, shadowWidth, drawTufts = false, ripplePhase, neighbours, theme = DEFAULT_GRID_THEME } = options;
+  const palette = theme.palette[pos.material];
+
+  const w = layout.tileWidth;
+  const h = layout.tileHeight;
 
   // The `pixelX` and `pixelY` from `pos` represent the true center of the tile's top face.
   // We need to calculate the corner points relative to this center.
   const topPointY = pixelY - (h / 2);
-  const soilY = topPointY + GRID_CONFIG.grassHeight;
+  const soilY = topPointY + layout.grassHeight;
+  const soilHeight = layout.soilHeight + elevation * layout.levelHeight;
 
     // Right Face (Soil) - with wavy top to match grass bottom
-    drawWavySoilSide(ctx,
+    drawWavySoilSide(ctx, layout, theme.wave,
         { x: pixelX, y: soilY + h },
         { x: pixelX + w / 2, y: soilY + h / 2 },
-        { x: pixelX + w / 2, y: soilY + h / 2 + GRID_CONFIG.soilHeight },
-        { x: pixelX, y: soilY + h + GRID_CONFIG.soilHeight },
-        COLORS.soil.sideDark
+        { x: pixelX + w / 2, y: soilY + h / 2 + soilHeight },
+        { x: pixelX, y: soilY + h + soilHeight },
+        theme.soil.sideDark
     );
 
     // Left Face (Soil) - with wavy top to match grass bottom
-    drawWavySoilSide(ctx,
+    drawWavySoilSide(ctx, layout, theme.wave,
         { x: pixelX - w / 2, y: soilY + h / 2 },
         { x: pixelX, y: soilY + h },
-        { x: pixelX, y: soilY + h + GRID_CONFIG.soilHeight },
-        { x: pixelX - w / 2, y: soilY + h / 2 + GRID_CONFIG.soilHeight },
-        COLORS.soil.sideLight
+        { x: pixelX, y: soilY + h + soilHeight },
+        { x: pixelX - w / 2, y: soilY + h / 2 + soilHeight },
+        theme.soil.sideLight
     );
 
-  // Right Face (Grass) - with wavy bottom
-  drawWavyGrassSide(ctx,
+    drawStrata(ctx, layout, pixelX, soilY, elevation, theme);
+
+  // Right Face (top material) - with wavy bottom
+  drawWavyGrassSide(ctx, layout, theme.wave,
     { x: pixelX, y: topPointY + h },
     { x: pixelX + w / 2, y: topPointY + h / 2 },
-    { x: pixelX + w / 2, y: topPointY + h / 2 + GRID_CONFIG.grassHeight },
-    { x: pixelX, y: topPointY + h + GRID_CONFIG.grassHeight },
-    COLORS.grass.sideDark
+    { x: pixelX + w / 2, y: topPointY + h / 2 + layout.grassHeight },
+    { x: pixelX, y: topPointY + h + layout.grassHeight },
+    palette.sideDark
   );
 
-  // Left Face (Grass) - with wavy bottom
-  drawWavyGrassSide(ctx,
+  // Left Face (top material) - with wavy bottom
+  drawWavyGrassSide(ctx, layout, theme.wave,
     { x: pixelX - w / 2, y: topPointY + h / 2 },
     { x: pixelX, y: topPointY + h },
-    { x: pixelX, y: topPointY + h + GRID_CONFIG.grassHeight },
-    { x: pixelX - w / 2, y: topPointY + h / 2 + GRID_CONFIG.grassHeight },
-    COLORS.grass.sideLight
+    { x: pixelX, y: topPointY + h + layout.grassHeight },
+    { x: pixelX - w / 2, y: topPointY + h / 2 + layout.grassHeight },
+    palette.sideLight
   );
 
   // Top Face
@@ -370,71 +584,238 @@ export function drawIsoBlock(ctx: any, pos: GridPosition, options: DrawIsoBlockO
     { x: pixelX, y: topPointY + h },
     { x: pixelX - w / 2, y: topPointY + h / 2 }
   ];
-  drawPoly(ctx, topVerts, COLORS.grass.top, COLORS.grass.gridStroke);
+  drawPoly(ctx, layout, topVerts, palette.top, palette.gridStroke);
+  if (neighbours) {
+    drawEdgeBlends(ctx, topVerts, { x: pixelX, y: pixelY }, neighbours, theme);
+  }
 
   // Draw shadow if requested
   if (hasShadow) {
-    drawShadow(ctx, pixelX, pixelY, shadowWidth);
+    drawShadow(ctx, layout, pixelX, pixelY, shadowWidth, theme);
   }
 
-  // Random Details - draw tufts if enabled and no shadow (meaning no tree)
+  // Random Details - draw them if enabled and no shadow (meaning no tree)
   if (drawTufts && !hasShadow) {
-    const seed = Math.sin(gridX! * 12.9898 + gridY! * 78.233) * 43758.5453;
-    if ((seed - Math.floor(seed)) > 0.5) { // 50% chance
-      const randX = (seed * 10) % (20 * SCALE) - (10 * SCALE);
-      const randY = (seed * 20) % (10 * SCALE) - (5 * SCALE);
-      drawTuft(ctx, pixelX + randX, pixelY + randY);
+    drawDetail(ctx, layout, pos, theme, ripplePhase);
+  }
+}
+
+export interface GridTile {
+  gridX: number;
+  gridY: number;
+  /** Levels the tile is raised by; 0, the default, is ground level. */
+  elevation?: number;
+  /** Defaults to grass. */
+  material?: TileMaterial;
+}
+
+/**
+ * Every tile of a `columns` x `rows` rectangle starting at 0,0.
+ */
+export function rectangleTiles(columns: number, rows: number): GridTile[] {
+  const tiles: GridTile[] = [];
+  for (let gridY = 0; gridY < rows; gridY++) {
+    for (let gridX = 0; gridX < columns; gridX++) {
+      tiles.push({ gridX, gridY });
     }
   }
+  return tiles;
 }
 
 /**
- * Calculate canvas dimensions for a given grid size
+ * The smallest rectangle of tiles from 0,0 that holds every given tile.
  */
-export function calculateCanvasDimensions(gridSize: number): { width: number, height: number } {
-  const totalGridWidth = (gridSize * 2) * (GRID_CONFIG.tileWidth / 2);
-  const calculatedWidth = totalGridWidth + (100 * SCALE);
-  const calculatedHeight = (gridSize) * (GRID_CONFIG.tileWidth / 2) + (GRID_CONFIG.soilHeight + GRID_CONFIG.grassHeight) * 2 + (200 * SCALE);
-  // Use the larger dimension to create a square canvas
-  const canvasSize = Math.max(calculatedWidth, calculatedHeight);
-  return { width: canvasSize, height: canvasSize };
+export function boundingTiles(tiles: GridTile[]): GridTile[] {
+  let columns = 1;
+  let rows = 1;
+  for (const tile of tiles) {
+    columns = Math.max(columns, tile.gridX + 1);
+    rows = Math.max(rows, tile.gridY + 1);
+  }
+  return rectangleTiles(columns, rows);
 }
 
 /**
- * Generate grid positions for a given grid size
+ * Throws for a tree placed where no tile is drawn, on water, or on a tile
+ * that already has a tree.
  */
-export function generateGridPositions(gridSize: number, canvasWidth: number): GridPosition[] {
-  const positions: GridPosition[] = [];
-  const startX = canvasWidth / 2;
-  const startY = 150 * SCALE;
-
-  for (let y = 0; y < gridSize; y++) {
-    for (let x = 0; x < gridSize; x++) {
-      const isoX = (x - y) * (GRID_CONFIG.tileWidth / 2);
-      const isoY = (x + y) * (GRID_CONFIG.tileWidth / 4);
-      const pixelX = startX + isoX;
-      const pixelY = startY + isoY + (GRID_CONFIG.tileWidth / 4);
-      positions.push({
-        gridX: x,
-        gridY: y,
-        pixelX: Math.round(pixelX),
-        pixelY: Math.round(pixelY)
-      });
+export function assertTreesOnTiles(trees: { gridX: number, gridY: number }[], tiles: GridTile[]) {
+  const materials = new Map(tiles.map(tile => [`${tile.gridX},${tile.gridY}`, tile.material ?? 'grass']));
+  const planted = new Set<string>();
+  for (const tree of trees) {
+    const key = `${tree.gridX},${tree.gridY}`;
+    if (planted.has(key)) {
+      throw new Error(`Tree at ${key} is placed more than once`);
+    }
+    planted.add(key);
+    const material = materials.get(key);
+    if (!material) {
+      throw new Error(`Tree at ${tree.gridX},${tree.gridY} has no tile to stand on`);
+    }
+    if (material === 'water') {
+      throw new Error(`Tree at ${tree.gridX},${tree.gridY} can't stand on water`);
     }
   }
+}
+
+/**
+ * Center of the tile's top face, lifted by its elevation, relative to the
+ * origin.
+ */
+function isoCenter(dimensions: Omit<GridLayout, 'canvasWidth' | 'canvasHeight' | 'originX' | 'originY'>, tile: GridTile): { x: number, y: number } {
+  return {
+    x: (tile.gridX - tile.gridY) * (dimensions.tileWidth / 2),
+    y: (tile.gridX + tile.gridY) * (dimensions.tileHeight / 2) - (tile.elevation ?? 0) * dimensions.levelHeight,
+  };
+}
+
+/**
+ * Lays out a canvas cropped to the given tiles plus margin, from the top
+ * point of the highest tile to the soil of the lowest. `scale` multiplies
+ * every size in TILE_DIMENSIONS. Each tile may only be given once.
+ */
+export function createGridLayout(tiles: GridTile[], scale: number = SCALE): GridLayout {
+  if (tiles.length === 0) {
+    throw new Error('Grid needs at least one tile');
+  }
+  const seen = new Set<string>();
+  for (const tile of tiles) {
+    const key = `${tile.gridX},${tile.gridY}`;
+    if (seen.has(key)) {
+      throw new Error(`Tile (${tile.gridX}, ${tile.gridY}) is given more than once`);
+    }
+    seen.add(key);
+  }
+  const dimensions = {
+    scale,
+    tileWidth: TILE_DIMENSIONS.tileWidth * scale,
+    tileHeight: TILE_DIMENSIONS.tileWidth * scale / 2,
+    grassHeight: TILE_DIMENSIONS.grassHeight * scale,
+    soilHeight: TILE_DIMENSIONS.soilHeight * scale,
+    levelHeight: TILE_DIMENSIONS.levelHeight * scale,
+  };
+  const w = dimensions.tileWidth;
+  const h = dimensions.tileHeight;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const tile of tiles) {
+    const { x, y } = isoCenter(dimensions, tile);
+    minX = Math.min(minX, x - w / 2);
+    maxX = Math.max(maxX, x + w / 2);
+    minY = Math.min(minY, y - h / 2);
+    const depth = dimensions.grassHeight + dimensions.soilHeight + (tile.elevation ?? 0) * dimensions.levelHeight;
+    maxY = Math.max(maxY, y + h / 2 + depth);
+  }
+  minX -= GRID_MARGIN.side * scale;
+  minY -= GRID_MARGIN.top * scale;
+  maxX += GRID_MARGIN.side * scale;
+  maxY += GRID_MARGIN.bottom * scale;
+
+  return Object.freeze({
+    ...dimensions,
+    canvasWidth: Math.ceil(maxX - minX),
+    canvasHeight: Math.ceil(maxY - minY),
+    originX: -minX,
+    originY: -minY,
+  });
+}
+
+/**
+ * Generate the canvas positions of the given tiles in `layout`.
+ */
+export function generateGridPositions(layout: GridLayout, tiles: GridTile[]): GridPosition[] {
+  const positions: GridPosition[] = [];
+
+  for (const tile of tiles) {
+    const { x, y } = isoCenter(layout, tile);
+    positions.push({
+      gridX: tile.gridX,
+      gridY: tile.gridY,
+      pixelX: Math.round(x + layout.originX),
+      pixelY: Math.round(y + layout.originY),
+      elevation: tile.elevation ?? 0,
+      material: tile.material ?? 'grass'
+    });
+  }
 
   return positions;
 }
 
 /**
- * Sort positions for proper isometric rendering (back to front)
+ * Sort positions for proper isometric rendering (back to front). Blocks all
+ * reach down to the ground, so a nearer block covers a farther one whatever
+ * their heights; within a diagonal row lower tiles go first.
  */
 export function sortPositionsForRendering(positions: GridPosition[]): GridPosition[] {
   return [...positions].sort((a, b) => {
-    return (a.gridY + a.gridX) - (b.gridY + b.gridX);
+    return (a.gridY + a.gridX) - (b.gridY + b.gridX) || a.elevation - b.elevation;
   });
 }
 
+/**
+ * Consecutive diagonal rows drawn onto one canvas, cropped to their blocks.
+ * `x` and `y` place that canvas on the grid canvas.
+ */
+export interface TileLayer {
+  positions: GridPosition[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Groups back-to-front `positions` into as few layers as possible. Rows are
+ * shared by one layer until a row for which `breakAfter(depth)` is true,
+ * meaning something drawn every frame (a tree, a ripple) stands on it and
+ * has to go between that row and the next.
+ */
+export function planTileLayers(layout: GridLayout, positions: GridPosition[], breakAfter: (depth: number) => boolean): TileLayer[] {
+  const layers: TileLayer[] = [];
+  let current: GridPosition[] = [];
+  const close = () => {
+    if (current.length > 0) {
+      layers.push({ positions: current, ...tileBounds(layout, current) });
+      current = [];
+    }
+  };
+
+  for (let i = 0; i < positions.length; i++) {
+    const pos = positions[i]!;
+    current.push(pos);
+    const depth = pos.gridX + pos.gridY;
+    const next = positions[i + 1];
+    if (next && next.gridX + next.gridY !== depth && breakAfter(depth)) {
+      close();
+    }
+  }
+  close();
+  return layers;
+}
+
+/**
+ * Canvas area covered by the blocks of `positions`, with room for strokes
+ * and waves, clipped to the grid canvas.
+ */
+function tileBounds(layout: GridLayout, positions: GridPosition[]): { x: number, y: number, width: number, height: number } {
+  const pad = 4 * layout.scale;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const pos of positions) {
+    minX = Math.min(minX, pos.pixelX - layout.tileWidth / 2);
+    maxX = Math.max(maxX, pos.pixelX + layout.tileWidth / 2);
+    minY = Math.min(minY, pos.pixelY - layout.tileHeight / 2);
+    const depth = layout.grassHeight + layout.soilHeight + pos.elevation * layout.levelHeight;
+    maxY = Math.max(maxY, pos.pixelY + layout.tileHeight / 2 + depth);
+  }
+  const x = Math.max(0, Math.floor(minX - pad));
+  const y = Math.max(0, Math.floor(minY - pad));
+  return {
+    x,
+    y,
+    width: Math.min(layout.canvasWidth, Math.ceil(maxX + pad)) - x,
+    height: Math.min(layout.canvasHeight, Math.ceil(maxY + pad)) - y,
+  };
+}
+
 /**
  * Calculate tree drawing position
  */
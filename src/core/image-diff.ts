@@ -0,0 +1,56 @@
+// Largest possible YIQ distance between two colours, see diffImages
+const MAX_YIQ_DELTA = 35215;
+
+export interface ImageDiff {
+    /** Pixels whose colours differ by more than the threshold */
+    mismatched: number;
+    total: number;
+    /** RGBA image: mismatched pixels in red over a faded copy of the expected image */
+    diff: Uint8ClampedArray;
+}
+
+/**
+ * Perceptual comparison of two RGBA buffers of the same size. Pixels are
+ * composited over white and compared by their YIQ distance, as pixelmatch
+ * does, so anti-aliasing noise below `threshold` (0..1) is not counted.
+ */
+export function diffImages(expected: Uint8ClampedArray, actual: Uint8ClampedArray, threshold: number = 0.1): ImageDiff {
+    if (expected.length !== actual.length) {
+        throw new Error(`Cannot diff images of different sizes (${expected.length} vs ${actual.length} bytes)`);
+    }
+    const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+    const diff = new Uint8ClampedArray(expected.length);
+    let mismatched = 0;
+
+    for (let i = 0; i < expected.length; i += 4) {
+        if (colorDelta(expected, actual, i) > maxDelta) {
+            mismatched++;
+            diff.set([255, 0, 0, 255], i);
+        } else {
+            const gray = 255 + (luma(expected, i) - 255) * 0.1;
+            diff.set([gray, gray, gray, 255], i);
+        }
+    }
+    return { mismatched, total: expected.length / 4, diff };
+}
+
+function blend(channel: number, alpha: number): number {
+    return 255 + (channel - 255) * alpha;
+}
+
+function luma(data: Uint8ClampedArray, i: number): number {
+    const a = data[i + 3]! / 255;
+    return blend(data[i]!, a) * 0.29889531 + blend(data[i + 1]!, a) * 0.58662247 + blend(data[i + 2]!, a) * 0.11448223;
+}
+
+function colorDelta(a: Uint8ClampedArray, b: Uint8ClampedArray, i: number): number {
+    const alphaA = a[i + 3]! / 255;
+    const alphaB = b[i + 3]! / 255;
+    const r1 = blend(a[i]!, alphaA), g1 = blend(a[i + 1]!, alphaA), b1 = blend(a[i + 2]!, alphaA);
+    const r2 = blend(b[i]!, alphaB), g2 = blend(b[i + 1]!, alphaB), b2 = blend(b[i + 2]!, alphaB);
+
+    const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+    const iq = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+    const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+    return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
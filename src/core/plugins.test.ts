@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Generate } from '../models/generate';
+import { loadEntityManifests, type GeneratorKind } from './plugins';
+
+// Stand-ins for the real generators, which need the native canvas module
+const KINDS = new Map<string, GeneratorKind>([
+    ['tree', { params: [], create: () => ({}) as Generate }],
+    ['local', { params: ['videoFilename', 'videoDirectory'], create: () => ({}) as Generate }],
+]);
+
+const LIT_TREE = {
+    id: 'lit_tree',
+    name: 'Lit Tree',
+    description: 'A christmas tree with lights.',
+    basePrice: 200,
+    generator: { kind: 'local', params: { videoFilename: 'lit_tree' } },
+};
+
+async function loadError(directory: string): Promise<string> {
+    try {
+        await loadEntityManifests(directory, KINDS);
+    } catch (err) {
+        return (err as Error).message;
+    }
+    return '';
+}
+
+describe('loadEntityManifests', () => {
+    let directory: string;
+    const write = (name: string, manifest: unknown) =>
+        writeFileSync(path.join(directory, name), JSON.stringify(manifest));
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('loads a valid local manifest', async () => {
+        write('lit_tree.json', { ...LIT_TREE, variants: 3 });
+        const loaded = await loadEntityManifests(directory, KINDS);
+        expect(loaded.length).toBe(1);
+        expect(loaded[0]!.file).toBe(path.join(directory, 'lit_tree.json'));
+        expect(loaded[0]!.manifest.id).toBe('lit_tree');
+        expect(loaded[0]!.manifest.variants).toBe(3);
+    });
+
+    test('rejects a duplicate id', async () => {
+        write('a.json', LIT_TREE);
+        write('b.json', LIT_TREE);
+        expect(await loadError(directory)).toContain('b.json: duplicate id "lit_tree" (already defined in a.json)');
+    });
+
+    test('rejects an unknown generator kind', async () => {
+        write('lit_tree.json', { ...LIT_TREE, generator: { kind: 'palm' } });
+        expect(await loadError(directory)).toContain('"generator.kind" must be one of: tree, local');
+    });
+
+    test('rejects params the generator does not take', async () => {
+        write('a.json', { ...LIT_TREE, generator: { kind: 'local', params: { videoFilename: 'lit_tree', variants: 5 } } });
+        write('b.json', { ...LIT_TREE, id: 'plain', generator: { kind: 'tree', params: { size: 2 } } });
+        write('c.json', { ...LIT_TREE, id: 'listed', generator: { kind: 'local', params: ['lit_tree'] } });
+        const message = await loadError(directory);
+        expect(message).toContain('a.json: unknown field "generator.params.variants"');
+        expect(message).toContain('b.json: "generator.params" must be left out; "tree" takes no params');
+        expect(message).toContain('c.json: "generator.params" must be an object');
+    });
+});
@@ -0,0 +1,144 @@
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { Generate } from '../models/generate';
+import type { EntityManifest } from '../types/entity-manifest';
+
+export interface GeneratorKind {
+    /** Names of the `generator.params` a manifest may set; empty when it takes none. */
+    params: readonly string[];
+    create: (params: Record<string, unknown>) => Generate;
+}
+
+export interface LoadedManifest {
+    file: string;
+    manifest: EntityManifest;
+}
+
+const MANIFEST_EXTENSIONS = ['.json', '.ts'];
+const ID_PATTERN = /^[a-z0-9_]+$/;
+const KNOWN_KEYS = new Set(['id', 'name', 'description', 'creator', 'donate', 'variants', 'basePrice', 'isGrowable', 'generator']);
+
+/**
+ * Reads and validates every manifest in a directory. JSON files are parsed
+ * directly; TS files must default-export the manifest. All problems are
+ * collected and reported together so one bad file doesn't hide the next.
+ */
+export async function loadEntityManifests(directory: string, kinds: ReadonlyMap<string, GeneratorKind>): Promise<LoadedManifest[]> {
+    if (!existsSync(directory)) {
+        return [];
+    }
+
+    const files = (await readdir(directory))
+        .filter(name => MANIFEST_EXTENSIONS.includes(path.extname(name)) && !name.endsWith('.d.ts'))
+        .sort();
+
+    const loaded: LoadedManifest[] = [];
+    const errors: string[] = [];
+    const seen = new Map<string, string>();
+
+    for (const name of files) {
+        const file = path.join(directory, name);
+        let raw: unknown;
+        try {
+            raw = await readManifest(file);
+        } catch (err) {
+            errors.push(`${name}: could not be read (${err instanceof Error ? err.message : err})`);
+            continue;
+        }
+
+        const problems = validateManifest(raw, kinds);
+        if (problems.length > 0) {
+            errors.push(...problems.map(p => `${name}: ${p}`));
+            continue;
+        }
+
+        const manifest = raw as EntityManifest;
+        const previous = seen.get(manifest.id);
+        if (previous) {
+            errors.push(`${name}: duplicate id "${manifest.id}" (already defined in ${previous})`);
+            continue;
+        }
+        seen.set(manifest.id, name);
+        loaded.push({ file, manifest });
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid entity plugins in ${directory}:\n  - ${errors.join('\n  - ')}`);
+    }
+    return loaded;
+}
+
+async function readManifest(file: string): Promise<unknown> {
+    if (file.endsWith('.json')) {
+        return JSON.parse(await readFile(file, 'utf-8'));
+    }
+    // import() resolves bare relative paths as packages, so hand it an absolute URL
+    const module = await import(pathToFileURL(path.resolve(file)).href);
+    return module.default;
+}
+
+/**
+ * Returns a list of problems with a manifest; empty when it is valid.
+ */
+export function validateManifest(raw: unknown, kinds: ReadonlyMap<string, GeneratorKind>): string[] {
+    if (!isObject(raw)) {
+        return ['manifest must be an object'];
+    }
+
+    const problems: string[] = [];
+    for (const key of Object.keys(raw)) {
+        if (!KNOWN_KEYS.has(key)) problems.push(`unknown field "${key}"`);
+    }
+
+    if (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) {
+        problems.push('"id" must be a string of lowercase letters, digits and underscores');
+    }
+    for (const key of ['name', 'description'] as const) {
+        if (typeof raw[key] !== 'string' || raw[key].trim() === '') {
+            problems.push(`"${key}" must be a non-empty string`);
+        }
+    }
+    for (const key of ['creator', 'donate'] as const) {
+        if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+            problems.push(`"${key}" must be a string`);
+        }
+    }
+    if (typeof raw.basePrice !== 'number' || !Number.isFinite(raw.basePrice) || raw.basePrice < 0) {
+        problems.push('"basePrice" must be a non-negative number');
+    }
+    if (raw.variants !== undefined && (!Number.isInteger(raw.variants) || (raw.variants as number) < 1)) {
+        problems.push('"variants" must be a positive integer');
+    }
+    if (raw.isGrowable !== undefined && typeof raw.isGrowable !== 'boolean') {
+        problems.push('"isGrowable" must be a boolean');
+    }
+
+    const generator = raw.generator;
+    if (!isObject(generator)) {
+        problems.push('"generator" must be an object with a "kind"');
+    } else {
+        const kind = typeof generator.kind === 'string' ? kinds.get(generator.kind) : undefined;
+        if (!kind) {
+            problems.push(`"generator.kind" must be one of: ${Array.from(kinds.keys()).join(', ')}`);
+        }
+        if (generator.params !== undefined && !isObject(generator.params)) {
+            problems.push('"generator.params" must be an object');
+        } else if (kind && generator.params !== undefined) {
+            for (const key of Object.keys(generator.params)) {
+                if (!kind.params.includes(key)) {
+                    problems.push(kind.params.length === 0
+                        ? `"generator.params" must be left out; "${generator.kind}" takes no params`
+                        : `unknown field "generator.params.${key}"; "${generator.kind}" takes: ${kind.params.join(', ')}`);
+                }
+            }
+        }
+    }
+
+    return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
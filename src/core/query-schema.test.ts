@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test';
+import { applyRenderOptions, cliParams, parseQuery, RENDER_FIELDS } from './query-schema';
+import { DEFAULT_CONFIG } from '../types/config';
+
+describe('parseQuery', () => {
+    test('parses the fields that are set and leaves the rest unset', () => {
+        const query = parseQuery(RENDER_FIELDS, new URLSearchParams('width=960&season=winter&fps=&other=1'));
+        if (Array.isArray(query)) throw new Error('expected values');
+        expect(query.width).toBe(960);
+        expect(query.season).toBe('winter');
+        expect('fps' in query).toBe(false);
+        expect('other' in query).toBe(false);
+    });
+
+    test('reports every invalid field at once', () => {
+        const errors = parseQuery(RENDER_FIELDS, new URLSearchParams('width=5000&fps=2.5&filter=neon&progress=0.5'));
+        if (!Array.isArray(errors)) throw new Error('expected errors');
+        expect(errors.map(error => error.field).join(',')).toBe('filter,width,fps');
+        expect(errors[1]!.message).toBe('width must be an integer from 16 to 4096');
+    });
+});
+
+describe('applyRenderOptions', () => {
+    test('maps options onto the config', () => {
+        const config = applyRenderOptions(DEFAULT_CONFIG, { duration: 12, padding: 40 });
+        expect(config.durationSeconds).toBe(12);
+        expect(config.padding).toBe(40);
+        expect(config.width).toBe(DEFAULT_CONFIG.width);
+    });
+});
+
+describe('cliParams', () => {
+    test('reads --name=value flags and skips the rest', () => {
+        expect(cliParams(['maple', '--force', '--width=960']).toString()).toBe('width=960');
+    });
+});
@@ -0,0 +1,126 @@
+import type { Config } from '../types/config';
+import { getAvailableFilters } from './filters';
+import { SEASONS } from './seasons';
+
+/** One invalid input, sent to clients as part of a 400 response. */
+export interface QueryError {
+    field: string;
+    message: string;
+}
+
+export interface QueryField<T> {
+    /** Accepted values, for error messages */
+    expected: string;
+    parse(raw: string): T | undefined;
+}
+
+export type QuerySchema = Record<string, QueryField<unknown>>;
+
+export type QueryValues<S extends QuerySchema> = {
+    [K in keyof S]?: S[K] extends QueryField<infer T> ? T : never;
+};
+
+export function integerField(min: number, max: number = Number.MAX_SAFE_INTEGER): QueryField<number> {
+    return {
+        expected: max === Number.MAX_SAFE_INTEGER ? `an integer of at least ${min}` : `an integer from ${min} to ${max}`,
+        parse(raw) {
+            const value = Number(raw);
+            return Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+        }
+    };
+}
+
+export function numberField(min: number, max: number): QueryField<number> {
+    return {
+        expected: `a number from ${min} to ${max}`,
+        parse(raw) {
+            const value = Number(raw);
+            return Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+        }
+    };
+}
+
+export function enumField<T extends string>(values: readonly T[]): QueryField<T> {
+    return {
+        expected: `one of ${values.join(', ')}`,
+        parse(raw) {
+            return values.includes(raw as T) ? raw as T : undefined;
+        }
+    };
+}
+
+export function stringField(maxLength: number): QueryField<string> {
+    return {
+        expected: `a string of at most ${maxLength} characters`,
+        parse(raw) {
+            return raw.length <= maxLength ? raw : undefined;
+        }
+    };
+}
+
+/**
+ * Render settings clients and the cache-gen scripts may change, with the
+ * ranges the renderer handles safely. Stills are rendered in memory and
+ * 4096x4096 RGBA is already 64 MiB.
+ */
+export const RENDER_FIELDS = {
+    seed: stringField(256),
+    version: integerField(1),
+    season: enumField(SEASONS),
+    filter: enumField(getAvailableFilters()),
+    width: integerField(16, 4096),
+    height: integerField(16, 4096),
+    fps: integerField(1, 60),
+    duration: numberField(1, 120),
+    // Pixels of the 480px reference canvas, see Config.padding
+    padding: numberField(0, 200),
+    progress: numberField(0, 1),
+};
+
+export type RenderOptions = QueryValues<typeof RENDER_FIELDS>;
+
+/**
+ * Parses the fields of `schema` present in `params`. Empty values count as
+ * unset and unknown parameters are ignored. Returns every invalid field at once.
+ */
+export function parseQuery<S extends QuerySchema>(schema: S, params: URLSearchParams): QueryValues<S> | QueryError[] {
+    const values: Record<string, unknown> = {};
+    const errors: QueryError[] = [];
+    for (const [field, spec] of Object.entries(schema)) {
+        const raw = params.get(field);
+        if (raw === null || raw === '') continue;
+        const value = spec.parse(raw);
+        if (value === undefined) {
+            errors.push({ field, message: `${field} must be ${spec.expected}` });
+        } else {
+            values[field] = value;
+        }
+    }
+    return errors.length > 0 ? errors : values as QueryValues<S>;
+}
+
+/** `config` with every option that was set applied on top. */
+export function applyRenderOptions(config: Config, options: RenderOptions): Config {
+    const result = { ...config };
+    if (options.seed !== undefined) result.seed = options.seed;
+    if (options.version !== undefined) result.version = options.version;
+    if (options.season !== undefined) result.season = options.season;
+    if (options.filter !== undefined) result.filter = options.filter;
+    if (options.width !== undefined) result.width = options.width;
+    if (options.height !== undefined) result.height = options.height;
+    if (options.fps !== undefined) result.fps = options.fps;
+    if (options.duration !== undefined) result.durationSeconds = options.duration;
+    if (options.padding !== undefined) result.padding = options.padding;
+    if (options.progress !== undefined) result.progress = options.progress;
+    return result;
+}
+
+/** `--name=value` command line flags as query parameters, so scripts can share the server's schema. */
+export function cliParams(args: string[]): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const arg of args) {
+        const match = /^--([^=]+)=(.*)$/.exec(arg);
+        if (match) params.set(match[1]!, match[2]!);
+    }
+    return params;
+}
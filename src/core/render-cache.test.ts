@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CacheStore } from '../models/cache-store';
+import { DEFAULT_CONFIG } from '../types/config';
+import { LocalDirectoryStore, RenderCache, renderCacheKey } from './render-cache';
+
+// baojs pulls in an older bun:test declaration that only types toBe and toContain
+async function has(store: LocalDirectoryStore, key: string): Promise<boolean> {
+    return (await store.get(key)) !== undefined;
+}
+
+describe('LocalDirectoryStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(path.join(os.tmpdir(), 'render-cache-'));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('evicts the least recently used entries once over the byte limit', async () => {
+        const store = new LocalDirectoryStore(directory, 30);
+        await store.set('a', Buffer.alloc(10, 1));
+        await store.set('b', Buffer.alloc(10, 2));
+        await store.set('c', Buffer.alloc(10, 3));
+
+        // Reading 'a' makes 'b' the oldest
+        expect((await store.get('a'))?.toString('hex')).toBe('01'.repeat(10));
+        await store.set('d', Buffer.alloc(10, 4));
+
+        expect(await has(store, 'b')).toBe(false);
+        expect(existsSync(path.join(directory, 'b'))).toBe(false);
+        for (const key of ['a', 'c', 'd']) {
+            expect(await has(store, key)).toBe(true);
+        }
+    });
+
+    test('never holds more than maxBytes', async () => {
+        const store = new LocalDirectoryStore(directory, 25);
+        await store.set('a', Buffer.alloc(10));
+        await store.set('b', Buffer.alloc(10));
+        await store.set('c', Buffer.alloc(10));
+
+        expect(await has(store, 'a')).toBe(false);
+        expect(await has(store, 'b')).toBe(true);
+        expect(await has(store, 'c')).toBe(true);
+    });
+
+    test('skips entries larger than maxBytes without evicting others', async () => {
+        const store = new LocalDirectoryStore(directory, 20);
+        await store.set('small', Buffer.alloc(10));
+        await store.set('huge', Buffer.alloc(21));
+
+        expect(await has(store, 'huge')).toBe(false);
+        expect(existsSync(path.join(directory, 'huge'))).toBe(false);
+        expect(await has(store, 'small')).toBe(true);
+    });
+
+    test('survives concurrent writes of one key', async () => {
+        const store = new LocalDirectoryStore(directory, 100);
+        await Promise.all([1, 2, 3].map(fill => store.set('a', Buffer.alloc(10, fill))));
+
+        expect((await store.get('a'))?.length).toBe(10);
+        expect(readdirSync(directory).join(',')).toBe('a');
+    });
+
+    test('restores recency from file mtimes on startup', async () => {
+        writeFileSync(path.join(directory, 'old'), Buffer.alloc(10));
+        writeFileSync(path.join(directory, 'new'), Buffer.alloc(10));
+        utimesSync(path.join(directory, 'old'), new Date(1000), new Date(1000));
+        utimesSync(path.join(directory, 'new'), new Date(2000), new Date(2000));
+
+        const store = new LocalDirectoryStore(directory, 20);
+        await store.set('next', Buffer.alloc(10));
+
+        expect(await has(store, 'old')).toBe(false);
+        expect(await has(store, 'new')).toBe(true);
+        expect(await has(store, 'next')).toBe(true);
+    });
+});
+
+class MemoryStore implements CacheStore {
+    private entries = new Map<string, Buffer>();
+    async get(key: string) { return this.entries.get(key); }
+    async set(key: string, data: Buffer) { this.entries.set(key, data); }
+    async delete(key: string) { this.entries.delete(key); }
+}
+
+// A render that finishes when told to, and records whether it was cancelled
+function controlledRender() {
+    let finish!: (data: Buffer) => void;
+    const state = { calls: 0, aborted: false };
+    const render = (signal: AbortSignal) => {
+        state.calls++;
+        signal.addEventListener('abort', () => { state.aborted = true; });
+        return new Promise<Buffer>(resolve => { finish = resolve; });
+    };
+    return { render, state, finish: (data: Buffer) => finish(data) };
+}
+
+describe('RenderCache', () => {
+    test('keeps a shared render going for callers that have not aborted', async () => {
+        const cache = new RenderCache(new MemoryStore());
+        const { render, state, finish } = controlledRender();
+        const first = new AbortController();
+        const firstResult = cache.getOrRender('key', render, first.signal).catch(err => err);
+        const second = cache.getOrRender('key', render, new AbortController().signal);
+        await Bun.sleep(0);
+
+        first.abort(new Error('gone'));
+        expect((await firstResult).message).toBe('gone');
+        expect(state.aborted).toBe(false);
+
+        finish(Buffer.from('done'));
+        expect((await second).toString()).toBe('done');
+        expect(state.calls).toBe(1);
+    });
+
+    test('cancels the render once every caller has aborted', async () => {
+        const cache = new RenderCache(new MemoryStore());
+        const { render, state, finish } = controlledRender();
+        const callers = [new AbortController(), new AbortController()];
+        const results = callers.map(caller => cache.getOrRender('key', render, caller.signal).catch(() => undefined));
+        await Bun.sleep(0);
+
+        callers.forEach(caller => caller.abort());
+        await Promise.all(results);
+        expect(state.aborted).toBe(true);
+
+        // A later request starts over instead of joining the cancelled render
+        const next = cache.getOrRender('key', render);
+        await Bun.sleep(0);
+        expect(state.calls).toBe(2);
+        finish(Buffer.from('again'));
+        expect((await next).toString()).toBe('again');
+    });
+});
+
+describe('renderCacheKey', () => {
+    const base = { entity: 'oak_video', seed: '00001', config: DEFAULT_CONFIG };
+
+    test('changes when a plugin points its generator at other artwork', () => {
+        const keys = [
+            renderCacheKey(base),
+            renderCacheKey({ ...base, params: { videoFilename: 'oak', variants: 2 } }),
+            renderCacheKey({ ...base, params: { videoFilename: 'elm', variants: 2 } }),
+            renderCacheKey({ ...base, params: { videoFilename: 'oak', videoDirectory: 'art', variants: 2 } }),
+            renderCacheKey({ ...base, params: { videoFilename: 'oak', variants: 3 } }),
+        ];
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    test('ignores the order params were written in', () => {
+        expect(renderCacheKey({ ...base, params: { videoFilename: 'oak', variants: 2 } }))
+            .toBe(renderCacheKey({ ...base, params: { variants: 2, videoFilename: 'oak' } }));
+    });
+});
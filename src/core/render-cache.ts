@@ -0,0 +1,222 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile, rename } from 'fs/promises';
+import * as path from 'path';
+import type { CacheStore } from '../models/cache-store';
+import type { Config } from '../types/config';
+
+/** Bump whenever a change alters rendered output, so cached renders are not reused. */
+export const RENDERER_VERSION = 2;
+
+export interface RenderKey {
+    entity: string;
+    seed: string;
+    config: Config;
+    filter?: string;
+    /** Params of a plugin's generator, such as which video a local entity plays */
+    params?: Record<string, unknown>;
+}
+
+/**
+ * Content address of a render: everything that can change the output bytes.
+ */
+export function renderCacheKey({ entity, seed, config, filter, params }: RenderKey): string {
+    const payload = JSON.stringify({
+        entity,
+        seed,
+        config: sortKeys(config),
+        filter: filter ?? null,
+        params: params ? sortKeys(params) : null,
+        version: RENDERER_VERSION
+    });
+    return createHash('sha256').update(payload).digest('hex');
+}
+
+function sortKeys<T extends object>(obj: T): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(obj).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Stores renders as files named by key in a single directory and evicts the
+ * least recently used ones once the total size exceeds maxBytes. Recency
+ * survives restarts through file mtimes, which are bumped on every hit.
+ */
+export class LocalDirectoryStore implements CacheStore {
+    private directory: string;
+    private maxBytes: number;
+    // Insertion order doubles as recency order: oldest first
+    private entries = new Map<string, number>();
+    private totalBytes = 0;
+    private ready: Promise<void> | undefined;
+
+    constructor(directory: string, maxBytes: number) {
+        this.directory = directory;
+        this.maxBytes = maxBytes;
+    }
+
+    async get(key: string): Promise<Buffer | undefined> {
+        await this.init();
+        if (!this.entries.has(key)) return undefined;
+
+        const file = this.pathFor(key);
+        try {
+            const data = await readFile(file);
+            this.touch(key, data.length);
+            const now = new Date();
+            await utimes(file, now, now).catch(() => undefined);
+            return data;
+        } catch {
+            // Removed from disk behind our back
+            this.forget(key);
+            return undefined;
+        }
+    }
+
+    async set(key: string, data: Buffer): Promise<void> {
+        await this.init();
+        if (data.length > this.maxBytes) return;
+
+        // Write then rename so readers never see a partial file; concurrent
+        // writes of one key each get their own temp file
+        const file = this.pathFor(key);
+        const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+        await writeFile(tmp, data);
+        await rename(tmp, file);
+
+        this.forget(key);
+        this.touch(key, data.length);
+        await this.evict();
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.init();
+        this.forget(key);
+        await rm(this.pathFor(key), { force: true });
+    }
+
+    private init(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.load();
+        }
+        return this.ready;
+    }
+
+    private async load() {
+        await mkdir(this.directory, { recursive: true });
+        const names = (await readdir(this.directory)).filter(name => !name.endsWith('.tmp'));
+        const files = await Promise.all(names.map(async name => {
+            const info = await stat(path.join(this.directory, name));
+            return { name, size: info.size, mtime: info.mtimeMs };
+        }));
+        files.sort((a, b) => a.mtime - b.mtime);
+        files.forEach(f => this.touch(f.name, f.size));
+        await this.evict();
+    }
+
+    private async evict() {
+        for (const [key] of this.entries) {
+            if (this.totalBytes <= this.maxBytes) break;
+            this.forget(key);
+            await rm(this.pathFor(key), { force: true });
+        }
+    }
+
+    private touch(key: string, size: number) {
+        this.forget(key);
+        this.entries.set(key, size);
+        this.totalBytes += size;
+    }
+
+    private forget(key: string) {
+        const size = this.entries.get(key);
+        if (size === undefined) return;
+        this.entries.delete(key);
+        this.totalBytes -= size;
+    }
+
+    private pathFor(key: string): string {
+        return path.join(this.directory, key);
+    }
+}
+
+interface InFlight {
+    render: Promise<Buffer>;
+    controller: AbortController;
+    waiters: number;
+}
+
+/**
+ * Render-once front for a store: concurrent requests for the same key share
+ * a single render, which is only cancelled once every request waiting on it
+ * has given up.
+ */
+export class RenderCache {
+    private store: CacheStore;
+    private inFlight = new Map<string, InFlight>();
+
+    constructor(store: CacheStore) {
+        this.store = store;
+    }
+
+    get(key: string): Promise<Buffer | undefined> {
+        return this.store.get(key);
+    }
+
+    set(key: string, data: Buffer): Promise<void> {
+        return this.store.set(key, data);
+    }
+
+    /**
+     * Aborting `signal` rejects this call only; `render` gets a signal of its
+     * own that aborts when no caller is left waiting.
+     */
+    async getOrRender(key: string, render: (signal: AbortSignal) => Promise<Buffer>, signal?: AbortSignal): Promise<Buffer> {
+        const cached = await this.store.get(key);
+        if (cached) return cached;
+        signal?.throwIfAborted();
+
+        let entry = this.inFlight.get(key);
+        if (!entry) {
+            const controller = new AbortController();
+            const started: InFlight = {
+                controller,
+                waiters: 0,
+                render: render(controller.signal)
+                    .then(async data => {
+                        await this.store.set(key, data).catch(err => console.error(`❌ Failed to cache ${key}:`, err));
+                        return data;
+                    })
+                    .finally(() => this.settle(key, started)),
+            };
+            entry = started;
+            this.inFlight.set(key, entry);
+        }
+        return this.wait(key, entry, signal);
+    }
+
+    private wait(key: string, entry: InFlight, signal?: AbortSignal): Promise<Buffer> {
+        entry.waiters++;
+        if (!signal) {
+            return entry.render;
+        }
+        return new Promise<Buffer>((resolve, reject) => {
+            const onAbort = () => {
+                if (--entry.waiters === 0) {
+                    // Later requests start a fresh render rather than join a cancelled one
+                    this.settle(key, entry);
+                    entry.controller.abort(signal.reason);
+                }
+                reject(signal.reason);
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            entry.render
+                .finally(() => signal.removeEventListener('abort', onAbort))
+                .then(resolve, reject);
+        });
+    }
+
+    private settle(key: string, entry: InFlight) {
+        if (this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key);
+        }
+    }
+}
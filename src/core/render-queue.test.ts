@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { QueueFullError, RENDER_PRIORITY, RenderQueue } from './render-queue';
+
+/** A job that runs until `finish` is called. */
+function blocker() {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    return { job: () => done, finish };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RenderQueue', () => {
+    test('runs stills ahead of videos queued before them', async () => {
+        const queue = new RenderQueue(1, 10);
+        const first = blocker();
+        const order: string[] = [];
+        const running = queue.run(RENDER_PRIORITY.video, first.job);
+        const jobs = [
+            queue.run(RENDER_PRIORITY.video, async () => { order.push('video-1'); }),
+            queue.run(RENDER_PRIORITY.video, async () => { order.push('video-2'); }),
+            queue.run(RENDER_PRIORITY.still, async () => { order.push('still'); }),
+        ];
+        await tick();
+        expect(queue.metrics().queued).toBe(3);
+
+        first.finish();
+        await Promise.all([running, ...jobs]);
+        expect(order.join(',')).toBe('still,video-1,video-2');
+        expect(queue.metrics().completed).toBe(4);
+    });
+
+    test('rejects jobs once the queue is full', async () => {
+        const queue = new RenderQueue(1, 1);
+        const first = blocker();
+        const running = queue.run(RENDER_PRIORITY.video, first.job);
+        const waiting = queue.run(RENDER_PRIORITY.video, async () => undefined);
+
+        let rejected: unknown;
+        await queue.run(RENDER_PRIORITY.still, async () => undefined).catch(err => { rejected = err; });
+        expect(rejected instanceof QueueFullError).toBe(true);
+        expect((rejected as QueueFullError).retryAfterSeconds >= 1).toBe(true);
+        expect(queue.metrics().rejected).toBe(1);
+
+        first.finish();
+        await Promise.all([running, waiting]);
+    });
+
+    test('drops waiting jobs whose client went away', async () => {
+        const queue = new RenderQueue(1, 10);
+        const first = blocker();
+        const running = queue.run(RENDER_PRIORITY.video, first.job);
+        const aborter = new AbortController();
+        let ran = false;
+        const waiting = queue.run(RENDER_PRIORITY.video, async () => { ran = true; }, aborter.signal);
+        await tick();
+
+        aborter.abort();
+        let cancelled = false;
+        await waiting.catch(() => { cancelled = true; });
+        expect(cancelled).toBe(true);
+        expect(queue.metrics().queued).toBe(0);
+
+        first.finish();
+        await running;
+        expect(ran).toBe(false);
+        expect(queue.metrics().cancelled).toBe(1);
+    });
+});
@@ -0,0 +1,134 @@
+/** Job priorities; interactive stills go ahead of videos. */
+export const RENDER_PRIORITY = {
+    video: 0,
+    still: 1,
+};
+
+// Assumed job length until one has finished, for Retry-After
+const INITIAL_JOB_SECONDS = 5;
+const MAX_RETRY_AFTER_SECONDS = 300;
+
+export class QueueFullError extends Error {
+    constructor(readonly retryAfterSeconds: number) {
+        super(`Render queue is full; retry in ${retryAfterSeconds}s`);
+    }
+}
+
+export interface RenderQueueMetrics {
+    concurrency: number;
+    maxQueued: number;
+    running: number;
+    queued: number;
+    completed: number;
+    failed: number;
+    rejected: number;
+    cancelled: number;
+    averageJobSeconds: number;
+}
+
+interface Waiting {
+    priority: number;
+    start: () => void;
+}
+
+/**
+ * Limits how many renders run at once. Jobs past `concurrency` wait, higher
+ * priorities first and equal ones in arrival order; past `maxQueued` waiting
+ * jobs they are rejected with a QueueFullError.
+ */
+export class RenderQueue {
+    private running = 0;
+    private waiting: Waiting[] = [];
+    private averageJobSeconds = INITIAL_JOB_SECONDS;
+    private counts = { completed: 0, failed: 0, rejected: 0, cancelled: 0 };
+
+    constructor(readonly concurrency: number, readonly maxQueued: number) {
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new Error(`Render concurrency must be a positive integer, got ${concurrency}`);
+        }
+    }
+
+    /** True when a new job would be rejected. */
+    get full(): boolean {
+        return this.running >= this.concurrency && this.waiting.length >= this.maxQueued;
+    }
+
+    /** Rough wait until a new job would start, from recent job lengths. */
+    retryAfterSeconds(): number {
+        const ahead = this.waiting.length + 1;
+        const seconds = Math.ceil(this.averageJobSeconds * ahead / this.concurrency);
+        return Math.min(MAX_RETRY_AFTER_SECONDS, Math.max(1, seconds));
+    }
+
+    /**
+     * Runs `job` once a worker is free. Aborting `signal` drops the job while
+     * it waits; once started the job has to watch the signal itself.
+     */
+    async run<T>(priority: number, job: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (this.full) {
+            this.counts.rejected++;
+            throw new QueueFullError(this.retryAfterSeconds());
+        }
+        signal?.throwIfAborted();
+        if (this.running >= this.concurrency) {
+            await this.wait(priority, signal);
+        } else {
+            this.running++;
+        }
+
+        const startedAt = performance.now();
+        try {
+            const result = await job();
+            this.counts.completed++;
+            return result;
+        } catch (err) {
+            this.counts.failed++;
+            throw err;
+        } finally {
+            const seconds = (performance.now() - startedAt) / 1000;
+            this.averageJobSeconds = this.averageJobSeconds * 0.8 + seconds * 0.2;
+            this.running--;
+            this.startNext();
+        }
+    }
+
+    metrics(): RenderQueueMetrics {
+        return {
+            concurrency: this.concurrency,
+            maxQueued: this.maxQueued,
+            running: this.running,
+            queued: this.waiting.length,
+            ...this.counts,
+            averageJobSeconds: Math.round(this.averageJobSeconds * 100) / 100,
+        };
+    }
+
+    private wait(priority: number, signal?: AbortSignal): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting.splice(this.waiting.indexOf(entry), 1);
+                this.counts.cancelled++;
+                reject(signal!.reason);
+            };
+            const entry: Waiting = {
+                priority,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                },
+            };
+            // Behind every job of the same or higher priority
+            const index = this.waiting.findIndex(other => other.priority < priority);
+            this.waiting.splice(index === -1 ? this.waiting.length : index, 0, entry);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private startNext() {
+        const next = this.waiting.shift();
+        if (next) {
+            this.running++;
+            next.start();
+        }
+    }
+}
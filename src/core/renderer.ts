@@ -0,0 +1,214 @@
+import { createCanvas, CanvasRenderingContext2D } from 'canvas';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import * as fs from 'fs';
+import type { Readable } from 'stream';
+import type { Context } from 'baojs';
+import type { DrawingContext } from '../models/drawing-context';
+import type { Generate } from '../models/generate';
+import { DEFAULT_CONFIG, type Config } from '../types/config';
+import type { GeneratorResult } from '../types/generator-result';
+import type { Bounds, Layout } from '../types/layout';
+import { createEncoder } from './encoders';
+import { includeBox, isEmptyBounds, toCanvasBounds } from './bounds';
+import { applyCanvasFilter } from './filters';
+import { atlasProgress, finishSpriteSheet, SpriteSheet } from './sprite-sheet';
+import { SvgContext } from './svg-context';
+import { resolveVersion } from './versions';
+import { WindField, type WindFrame } from './wind';
+
+export interface Frame {
+    index: number;
+    count: number;
+    /** Growth progress, 0 on the first frame and 1 on the last (fully grown) frame. */
+    t: number;
+    /** Only set in idle mode, where the plant is fully grown (t = 1) and sways in a looping wind. */
+    wind?: WindFrame;
+    /** Set when this frame is rendered on its own as a still image rather than as part of a video. */
+    still?: boolean;
+}
+
+/**
+ * Extents of the fully grown scene, in the same coordinates it is built in.
+ */
+export interface SceneBounds {
+    bounds: Bounds;
+    /** Foliage/flowers only; may be empty for bare plants */
+    canopy: Bounds;
+}
+
+/** Canvas size that padding and other fixed pixel sizes are tuned for. */
+export const REFERENCE_SIZE = 480;
+
+/**
+ * Canvas pixels per reference pixel, so a 1920px render is a crisper copy of
+ * the 480px one rather than a smaller tree with thinner details.
+ */
+export function pixelScale(config: Config): number {
+    return Math.min(config.width, config.height) / REFERENCE_SIZE;
+}
+
+/**
+ * Scales bounds to fit inside the padded canvas, centred horizontally with
+ * the bottom of the plant resting on the bottom padding. The logical origin
+ * is treated as the trunk start.
+ */
+export function fitToBounds(bounds: Bounds, config: Config, scaleFactor: number = 1): Layout {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const pixels = pixelScale(config);
+    const padding = config.padding * pixels;
+    const scale = Math.min(
+        (config.width - padding * 2) / width,
+        (config.height - padding * 2) / height
+    ) * scaleFactor;
+
+    const centerX = bounds.minX + width / 2;
+    const offsetX = config.width / 2 - centerX * scale;
+    const offsetY = (config.height - padding) - bounds.maxY * scale;
+
+    return { scale, offsetX, offsetY, trunkStartPosition: { x: offsetX, y: offsetY }, pixelScale: pixels };
+}
+
+/**
+ * Shared still/video pipeline. Entities only build their scene from the
+ * config and draw a single frame; fitting, encoding, backpressure and
+ * encoder error handling live here.
+ */
+export abstract class SceneGenerator<S> implements Generate {
+    /** Override when adding a version; buildScene and drawFrame branch on `config.version` for older ones. */
+    readonly versions: readonly number[] = [1];
+    /** Set when `config.season` changes the scene itself; otherwise a season only grades pixels, which SVG export skips. */
+    readonly seasonalGeometry: boolean = false;
+    /** Every drawn entity bends in `frame.wind`; set false for one that can't. */
+    readonly supportsIdle: boolean = true;
+
+    protected abstract buildScene(config: Config): Promise<S>;
+    protected abstract layout(scene: S, config: Config): Layout;
+    protected abstract measure(scene: S, config: Config): SceneBounds;
+    protected abstract drawFrame(ctx: DrawingContext, scene: S, layout: Layout, frame: Frame): void;
+
+    async getInfo(config?: Config): Promise<GeneratorResult> {
+        if (!config) {
+            throw new Error('Config is required to get tree info.');
+        }
+        config = { ...config, version: resolveVersion(this, config.version) };
+        const scene = await this.buildScene(config);
+        const layout = this.layout(scene, config);
+        const { bounds, canopy } = this.measure(scene, config);
+        if (isEmptyBounds(canopy)) {
+            Object.assign(canopy, bounds);
+        } else {
+            // Leaf shapes can overhang the extents used for fitting
+            includeBox(bounds, canopy.minX, canopy.minY);
+            includeBox(bounds, canopy.maxX, canopy.maxY);
+        }
+        return {
+            trunkStartPosition: layout.trunkStartPosition,
+            bounds: toCanvasBounds(bounds, layout),
+            canopyBounds: toCanvasBounds(canopy, layout),
+            growthDurationSeconds: config.durationSeconds
+        };
+    }
+
+    async generate(con: Context, onStream?: (process: ChildProcessWithoutNullStreams | undefined, videoStream: Readable) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
+        CONFIG = { ...CONFIG, version: resolveVersion(this, CONFIG.version) };
+        const canvas = createCanvas(CONFIG.width, CONFIG.height);
+        const ctx = canvas.getContext('2d');
+
+        const scene = await this.buildScene(CONFIG);
+        const layout = this.layout(scene, CONFIG);
+        const frameCount = Math.max(1, Math.round(CONFIG.durationSeconds * CONFIG.fps));
+
+        if (CONFIG.atlasFrames !== undefined) {
+            const progresses = atlasProgress(CONFIG.atlasFrames);
+            const sheet = new SpriteSheet(CONFIG.width, CONFIG.height, progresses.length);
+            for (const progress of progresses) {
+                // Same frames as the video, so atlas and video playback line up
+                const index = progressToFrame(progress, frameCount);
+                this.renderFrame(ctx, scene, layout, frameAt(index, frameCount), CONFIG);
+                sheet.add(canvas, {
+                    progress: frameCount > 1 ? index / (frameCount - 1) : 1,
+                    time: index / CONFIG.fps,
+                    anchor: { ...layout.trunkStartPosition }
+                });
+            }
+            return finishSpriteSheet(sheet, CONFIG, layout.trunkStartPosition);
+        }
+
+        if (CONFIG.photoOnly) {
+            const frame = { ...frameAt(progressToFrame(CONFIG.progress, frameCount), frameCount), still: true };
+            let imageBuffer: Buffer;
+            if (CONFIG.imageFormat === 'svg') {
+                // No colour grade in vectors; the server rejects seasons that would only be one
+                const svg = new SvgContext(CONFIG.width, CONFIG.height);
+                this.drawFrame(svg, scene, layout, frame);
+                imageBuffer = Buffer.from(svg.toSvg());
+            } else {
+                this.renderFrame(ctx, scene, layout, frame, CONFIG);
+                imageBuffer = canvas.toBuffer('image/png');
+            }
+            if (CONFIG.save_as_file) {
+                fs.writeFileSync(CONFIG.imageFilename, imageBuffer);
+            }
+            return {
+                imageBuffer,
+                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
+                trunkStartPosition: layout.trunkStartPosition
+            };
+        }
+
+        const wind = CONFIG.animation === 'idle' ? new WindField(CONFIG.seed) : undefined;
+
+        console.log(`🎥 Encoding ${CONFIG.format ?? 'webm'}: ${CONFIG.filename}`);
+        const encoder = createEncoder(CONFIG);
+
+        if (onStream) {
+            onStream(encoder.process, encoder.output);
+        }
+
+        try {
+            for (let index = 0; index < frameCount; index++) {
+                this.renderFrame(ctx, scene, layout, frameAt(index, frameCount, wind), CONFIG);
+                await encoder.writeFrame(canvas.toBuffer('image/png'));
+            }
+        } catch (err) {
+            await encoder.abort();
+            throw err;
+        }
+
+        await encoder.finish();
+
+        return {
+            videoPath: CONFIG.filename,
+            trunkStartPosition: layout.trunkStartPosition
+        };
+    }
+
+    private renderFrame(ctx: CanvasRenderingContext2D, scene: S, layout: Layout, frame: Frame, config: Config) {
+        ctx.clearRect(0, 0, config.width, config.height);
+        this.drawFrame(ctx, scene, layout, frame);
+        if (config.season) {
+            applyCanvasFilter(ctx, config.width, config.height, config.season);
+        }
+        if (config.filter) {
+            applyCanvasFilter(ctx, config.width, config.height, config.filter);
+        }
+    }
+}
+
+function frameAt(index: number, count: number, wind?: WindField): Frame {
+    if (wind) {
+        // Loop phase never reaches 1, so the last frame leads straight back into the first
+        return { index, count, t: 1, wind: { field: wind, loopPhase: index / count } };
+    }
+    return { index, count, t: count > 1 ? index / (count - 1) : 1 };
+}
+
+/**
+ * Index of the video frame shown at the given growth progress, so stills
+ * match the corresponding video frame exactly.
+ */
+export function progressToFrame(progress: number, frameCount: number): number {
+    const clamped = Math.min(1, Math.max(0, progress));
+    return Math.round(clamped * (frameCount - 1));
+}
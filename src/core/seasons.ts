@@ -0,0 +1,87 @@
+import { SeededRandom } from './seeded-random';
+import type { DrawingContext } from '../models/drawing-context';
+import type { Color } from '../types/color';
+import type { Config } from '../types/config';
+import type { Season } from '../types/season';
+
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export function isSeason(value: unknown): value is Season {
+    return SEASONS.includes(value as Season);
+}
+
+/**
+ * RNG for seasonal changes. Kept apart from the structure RNG so a seed
+ * grows the same branches in every season.
+ */
+export function seasonRandom(config: Config): SeededRandom {
+    return new SeededRandom(`${config.seed}:${config.season}`);
+}
+
+export const AUTUMN_PALETTE: Color[] = [
+    { r: 196, g: 82, b: 32, a: 1 },
+    { r: 222, g: 140, b: 38, a: 1 },
+    { r: 168, g: 48, b: 36, a: 1 },
+    { r: 230, g: 178, b: 60, a: 1 },
+];
+
+/**
+ * A leaf that detaches once the tree has grown. `start` is the growth
+ * progress at which it lets go, `drop` how far it has fallen by the last
+ * frame and `drift` how far it sways sideways on the way.
+ */
+export interface LeafFall {
+    start: number;
+    drop: number;
+    drift: number;
+}
+
+/**
+ * Decides whether a leaf at `fromY` falls, landing no lower than `groundY`.
+ * Some leaves reach the ground, the rest are still in the air at the end.
+ */
+export function planLeafFall(rand: SeededRandom, fromY: number, groundY: number, share: number): LeafFall | undefined {
+    if (rand.next() >= share) return undefined;
+    const landed = rand.next() < 0.4;
+    return {
+        start: rand.nextFloat(0.7, 0.9),
+        drop: Math.max(0, groundY - fromY) * (landed ? 1 : rand.nextFloat(0.3, 0.8)),
+        drift: rand.nextFloat(-30, 30),
+    };
+}
+
+export function leafFallOffset(fall: LeafFall, t: number): { x: number; y: number } {
+    const p = Math.min(1, Math.max(0, (t - fall.start) / (1 - fall.start)));
+    return {
+        x: Math.sin(p * Math.PI * 1.5) * fall.drift,
+        y: p * p * (3 - 2 * p) * fall.drop,
+    };
+}
+
+/**
+ * Draws snow resting on top of the flatter branches. Expects the same
+ * canvas-space quadratic segments the entity drew its bark with.
+ */
+export function drawSnowCaps(
+    ctx: DrawingContext,
+    branches: { start: { x: number; y: number }; end: { x: number; y: number }; control: { x: number; y: number }; strokeWidth: number }[],
+    pixelScale: number
+) {
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = 'rgba(245, 248, 255, 0.95)';
+    for (const b of branches) {
+        const dx = Math.abs(b.end.x - b.start.x);
+        const dy = Math.abs(b.end.y - b.start.y);
+        // Snow slides off near-vertical branches
+        if (b.strokeWidth < pixelScale || dx < dy * 0.6) continue;
+
+        const lift = b.strokeWidth * 0.35;
+        ctx.beginPath();
+        ctx.lineWidth = b.strokeWidth * 0.45;
+        ctx.moveTo(b.start.x, b.start.y - lift);
+        ctx.quadraticCurveTo(b.control.x, b.control.y - lift, b.end.x, b.end.y - lift);
+        ctx.stroke();
+    }
+    ctx.restore();
+}
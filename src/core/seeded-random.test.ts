@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { SeededRandom, StreamRandom, sceneRandom, xoshiro128ss } from './seeded-random';
+import { DEFAULT_CONFIG } from '../types/config';
+
+function draw(rand: { next(): number }, count: number): number[] {
+    return Array.from({ length: count }, () => rand.next());
+}
+
+describe('SeededRandom', () => {
+    test('forks match the seeds entities derived by hand', () => {
+        expect(draw(new SeededRandom('seed').fork('3'), 5)).toEqual(draw(new SeededRandom('seed-3'), 5));
+    });
+});
+
+describe('StreamRandom', () => {
+    test('matches the xoshiro128** reference output', () => {
+        // Reference state 1, 2, 3, 4 from the xoshiro authors' test vectors
+        const state = Uint32Array.of(1, 2, 3, 4);
+        const outputs = Array.from({ length: 4 }, () => xoshiro128ss(state));
+        expect(outputs).toEqual([11520, 0, 5927040, 70819200]);
+    });
+
+    test('forks do not depend on how much the parent has drawn', () => {
+        const fresh = new StreamRandom('seed');
+        const used = new StreamRandom('seed');
+        draw(used, 100);
+        expect(draw(used.fork('leaves'), 5)).toEqual(draw(fresh.fork('leaves'), 5));
+        expect(Math.abs(fresh.fork('leaves').next() - fresh.fork('trunk').next())).toBeGreaterThan(0);
+    });
+
+    test('weighted choice never picks a zero weight', () => {
+        const rand = new StreamRandom('weights');
+        const picks = Array.from({ length: 1000 }, () => rand.nextWeighted(['a', 'b', 'c'], [1, 0, 3]));
+        expect(picks.filter(pick => pick === 'b').length).toBe(0);
+    });
+
+    test('shuffle is a permutation', () => {
+        const shuffled = new StreamRandom('shuffle').shuffle([1, 2, 3, 4, 5, 6, 7, 8]);
+        expect([...shuffled].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    test('points stay inside the disc', () => {
+        const rand = new StreamRandom('disc');
+        for (let i = 0; i < 1000; i++) {
+            const { x, y } = rand.nextPointInDisc(5);
+            expect(Math.hypot(x, y)).toBeLessThanOrEqual(5);
+        }
+    });
+
+    test('gaussian values centre on the mean', () => {
+        const rand = new StreamRandom('gauss');
+        let sum = 0;
+        for (let i = 0; i < 10000; i++) sum += rand.nextGaussian(10, 2);
+        expect(Math.abs(sum / 10000 - 10)).toBeLessThan(0.1);
+    });
+});
+
+describe('sceneRandom', () => {
+    test('keeps the LCG for versions before the opt-in', () => {
+        const config = { ...DEFAULT_CONFIG, seed: 'scene' };
+        expect(sceneRandom({ ...config, version: 1 }, 2)).toBeInstanceOf(SeededRandom);
+        expect(sceneRandom({ ...config, version: 2 }, 2)).toBeInstanceOf(StreamRandom);
+        expect(sceneRandom(config, 2)).toBeInstanceOf(StreamRandom);
+    });
+});
@@ -1,9 +1,78 @@
 import { createHash, randomBytes } from 'crypto';
+import type { Config } from '../types/config';
 
-export class SeededRandom {
+/**
+ * Helpers shared by every seeded generator, built only on `next()` so that
+ * each generator keeps its own sequence.
+ */
+export abstract class Random {
+    abstract next(): number;
+
+    /** Independent stream derived from the seed and `name`, unaffected by how much this one has drawn. */
+    abstract fork(name: string): Random;
+
+    nextFloat(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    nextInt(min: number, max: number): number {
+        return Math.floor(this.nextFloat(min, max));
+    }
+    nextBoolean():Boolean {
+        return this.next() >= 0.5;
+    }
+
+    /** Normally distributed value (Box-Muller), always drawing two numbers. */
+    nextGaussian(mean: number = 0, stdDev: number = 1): number {
+        const u = 1 - this.next();
+        const v = this.next();
+        return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    /** Picks one item with probability proportional to its weight. */
+    nextWeighted<T>(items: readonly T[], weights: readonly number[]): T {
+        if (items.length === 0 || items.length !== weights.length) {
+            throw new Error(`Weighted choice needs one weight per item (${items.length} items, ${weights.length} weights)`);
+        }
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        if (!(total > 0)) {
+            throw new Error('Weighted choice needs a positive total weight');
+        }
+        let remaining = this.next() * total;
+        let last = 0;
+        for (let i = 0; i < items.length; i++) {
+            if (weights[i]! <= 0) continue;
+            remaining -= weights[i]!;
+            if (remaining < 0) return items[i]!;
+            last = i;
+        }
+        // Rounding can leave a sliver past the last bucket
+        return items[last]!;
+    }
+
+    /** Fisher-Yates shuffle, in place. */
+    shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            [items[i], items[j]] = [items[j]!, items[i]!];
+        }
+        return items;
+    }
+
+    /** Uniformly distributed point in a disc of `radius` around the origin. */
+    nextPointInDisc(radius: number): { x: number; y: number } {
+        const r = radius * Math.sqrt(this.next());
+        const angle = this.next() * Math.PI * 2;
+        return { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+    }
+}
+
+/** The original 32-bit LCG. Its low bits are poor, but every published seed depends on it. */
+export class SeededRandom extends Random {
     private seed: number;
 
-    constructor(seedString: string) {
+    constructor(private readonly seedString: string) {
+        super();
         const hash = createHash('sha256').update(seedString).digest('hex');
         this.seed = parseInt(hash.substring(0, 15), 16);
     }
@@ -13,14 +82,64 @@ export class SeededRandom {
         return this.seed / 4294967296;
     }
 
-    nextFloat(min: number, max: number): number {
-        return min + this.next() * (max - min);
+    // Same seeds entities derived by hand before forking existed, e.g. `${seed}-${i}`
+    fork(name: string): SeededRandom {
+        return new SeededRandom(`${this.seedString}-${name}`);
     }
+}
 
-    nextInt(min: number, max: number): number {
-        return Math.floor(this.nextFloat(min, max));
+/** xoshiro128** seeded from the SHA-256 of the seed string. */
+export class StreamRandom extends Random {
+    private readonly state = new Uint32Array(4);
+
+    constructor(private readonly seedString: string) {
+        super();
+        const hash = createHash('sha256').update(seedString).digest();
+        for (let i = 0; i < 4; i++) {
+            this.state[i] = hash.readUInt32BE(i * 4);
+        }
+        // An all-zero state would only ever produce zeros
+        if (this.state.every(word => word === 0)) this.state[0] = 1;
     }
-    nextBoolean():Boolean {
-        return this.next() >= 0.5;
+
+    next(): number {
+        return xoshiro128ss(this.state) / 4294967296;
+    }
+
+    fork(name: string): StreamRandom {
+        return new StreamRandom(`${this.seedString}/${name}`);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * One xoshiro128** step: advances the four-word state in place and returns
+ * the next unsigned 32-bit output.
+ */
+export function xoshiro128ss(s: Uint32Array): number {
+    let s0 = s[0]!, s1 = s[1]!, s2 = s[2]!, s3 = s[3]!;
+    const result = Math.imul(rotl(Math.imul(s1, 5), 7), 9) >>> 0;
+    const t = s1 << 9;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    s[0] = s0; s[1] = s1; s[2] = s2; s[3] = s3;
+    return result;
+}
+
+function rotl(x: number, k: number): number {
+    return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * Root generator of a scene. Generator versions from `firstStreamVersion` on
+ * draw from forkable xoshiro128** streams; older versions keep the LCG so
+ * their seeds still grow the same plants. Unset versions render the latest.
+ */
+export function sceneRandom(config: Config, firstStreamVersion: number): Random {
+    return (config.version ?? Infinity) >= firstStreamVersion
+        ? new StreamRandom(config.seed)
+        : new SeededRandom(config.seed);
+}
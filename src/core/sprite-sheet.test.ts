@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { createCanvas } from 'canvas';
+import { atlasPathFor, atlasProgress, SpriteSheet } from './sprite-sheet';
+
+describe('atlasProgress', () => {
+    test('spaces frames evenly from the first to the fully grown one', () => {
+        expect(atlasProgress(5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+        expect(atlasProgress(1)).toEqual([1]);
+    });
+
+    test('rejects counts that are not positive integers', () => {
+        for (const count of [0, -1, 2.5]) {
+            let message = '';
+            try {
+                atlasProgress(count);
+            } catch (err) {
+                message = (err as Error).message;
+            }
+            expect(message).toContain('atlasFrames must be a positive integer');
+        }
+    });
+});
+
+describe('SpriteSheet', () => {
+    // Five 10x6 frames, each filled with its own red level so cells can be told apart
+    function fiveFrameSheet(): SpriteSheet {
+        const sheet = new SpriteSheet(10, 6, 5);
+        const frame = createCanvas(10, 6);
+        const ctx = frame.getContext('2d');
+        for (let i = 0; i < 5; i++) {
+            ctx.fillStyle = `rgb(${i * 50}, 0, 0)`;
+            ctx.fillRect(0, 0, 10, 6);
+            sheet.add(frame, { progress: i / 4, time: i * 0.5, anchor: { x: 5, y: 6 } });
+        }
+        return sheet;
+    }
+
+    test('packs frames left to right, then top to bottom, in a roughly square grid', () => {
+        const sheet = fiveFrameSheet();
+        const atlas = sheet.toAtlas('sheet.png');
+        expect(atlas.columns).toBe(3);
+        expect(atlas.rows).toBe(2);
+        expect(atlas.size).toEqual({ w: 30, h: 12 });
+        expect(atlas.frames.map(f => [f.frame.x, f.frame.y])).toEqual([[0, 0], [10, 0], [20, 0], [0, 6], [10, 6]]);
+
+        const ctx = sheet.canvas.getContext('2d');
+        const red = atlas.frames.map(f => ctx.getImageData(f.frame.x + 1, f.frame.y + 1, 1, 1).data[0]);
+        expect(red).toEqual([0, 50, 100, 150, 200]);
+    });
+
+    test('keeps frame order and times each frame until the next', () => {
+        const atlas = fiveFrameSheet().toAtlas('sheet.png');
+        expect(atlas.frames.map(f => f.progress)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+        // The last frame holds as long as the spacing between the others
+        expect(atlas.frames.map(f => f.durationMs)).toEqual([500, 500, 500, 500, 500]);
+    });
+
+    test('gives a single frame no duration', () => {
+        const sheet = new SpriteSheet(4, 4, 1);
+        sheet.add(createCanvas(4, 4), { progress: 1, time: 30, anchor: { x: 2, y: 4 } });
+        expect(sheet.toAtlas('one.png').frames[0]!.durationMs).toBe(0);
+    });
+});
+
+describe('atlasPathFor', () => {
+    test('puts the atlas JSON next to the image', () => {
+        expect(atlasPathFor('cache/atlas/tree_0.png')).toBe('cache/atlas/tree_0.json');
+        expect(atlasPathFor('sheet.png')).toBe('sheet.json');
+    });
+});
@@ -0,0 +1,87 @@
+import { createCanvas, type Canvas, type CanvasRenderingContext2D, type Image } from 'canvas';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Config } from '../types/config';
+import type { GeneratorResult } from '../types/generator-result';
+import type { AtlasFrame, SpriteAtlas } from '../types/sprite-atlas';
+
+/**
+ * Growth progress of each atlas frame, evenly spaced from the first to the
+ * fully grown frame.
+ */
+export function atlasProgress(count: number): number[] {
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`atlasFrames must be a positive integer, got ${count}`);
+    }
+    return Array.from({ length: count }, (_, i) => count > 1 ? i / (count - 1) : 1);
+}
+
+/**
+ * Packs equally sized frames into a roughly square grid, left to right and
+ * top to bottom.
+ */
+export class SpriteSheet {
+    readonly columns: number;
+    readonly rows: number;
+    readonly canvas: Canvas;
+    private ctx: CanvasRenderingContext2D;
+    private frameWidth: number;
+    private frameHeight: number;
+    private frames: Omit<AtlasFrame, 'durationMs'>[] = [];
+
+    constructor(frameWidth: number, frameHeight: number, count: number) {
+        this.frameWidth = frameWidth;
+        this.frameHeight = frameHeight;
+        this.columns = Math.ceil(Math.sqrt(count));
+        this.rows = Math.ceil(count / this.columns);
+        this.canvas = createCanvas(this.columns * frameWidth, this.rows * frameHeight);
+        this.ctx = this.canvas.getContext('2d');
+    }
+
+    add(image: Canvas | Image, frame: Omit<AtlasFrame, 'frame' | 'durationMs'>) {
+        const index = this.frames.length;
+        const x = (index % this.columns) * this.frameWidth;
+        const y = Math.floor(index / this.columns) * this.frameHeight;
+        this.ctx.drawImage(image, x, y, this.frameWidth, this.frameHeight);
+        this.frames.push({ frame: { x, y, w: this.frameWidth, h: this.frameHeight }, ...frame });
+    }
+
+    toAtlas(image: string): SpriteAtlas {
+        // Frames are evenly spaced, so the last one holds for the same time as the others
+        const spacing = this.frames.length > 1 ? (this.frames[this.frames.length - 1]!.time - this.frames[0]!.time) / (this.frames.length - 1) : 0;
+        return {
+            image,
+            size: { w: this.canvas.width, h: this.canvas.height },
+            frameSize: { w: this.frameWidth, h: this.frameHeight },
+            columns: this.columns,
+            rows: this.rows,
+            frames: this.frames.map((f, i) => {
+                const next = this.frames[i + 1];
+                return { ...f, durationMs: Math.round((next ? next.time - f.time : spacing) * 1000) };
+            })
+        };
+    }
+}
+
+/**
+ * Encodes the sheet and, with save_as_file, writes it to imageFilename with
+ * the atlas JSON next to it.
+ */
+export function finishSpriteSheet(sheet: SpriteSheet, config: Config, trunkStartPosition?: GeneratorResult['trunkStartPosition']): GeneratorResult {
+    const imageBuffer = sheet.canvas.toBuffer('image/png');
+    const atlas = sheet.toAtlas(path.basename(config.imageFilename));
+    if (config.save_as_file) {
+        fs.writeFileSync(config.imageFilename, imageBuffer);
+        fs.writeFileSync(atlasPathFor(config.imageFilename), JSON.stringify(atlas, null, 2));
+    }
+    return {
+        imageBuffer,
+        imagePath: config.save_as_file ? config.imageFilename : undefined,
+        trunkStartPosition,
+        atlas
+    };
+}
+
+export function atlasPathFor(imageFilename: string): string {
+    return path.join(path.dirname(imageFilename), `${path.basename(imageFilename, path.extname(imageFilename))}.json`);
+}
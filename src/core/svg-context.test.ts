@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+import type { Canvas } from 'canvas';
+import { SvgContext } from './svg-context';
+
+// Just enough of a canvas for drawImage, so these tests don't need the native binding
+function fakeCanvas(width: number, height: number): Canvas {
+    return { width, height, toBuffer: () => Buffer.from('png-bytes') } as unknown as Canvas;
+}
+
+function paths(svg: string): string[] {
+    return [...svg.matchAll(/<path d="([^"]*)"/g)].map(match => match[1]!);
+}
+
+describe('SvgContext', () => {
+    test('flattens paths through translate, rotate and scale', () => {
+        const ctx = new SvgContext(100, 100);
+        ctx.translate(10, 20);
+        ctx.rotate(Math.PI / 2);
+        ctx.scale(2, 3);
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(5, 0);
+        ctx.lineTo(0, 5);
+        ctx.stroke();
+
+        // x' = 10 - 3y, y' = 20 + 2x
+        expect(paths(ctx.toSvg())).toEqual(['M10 20L10 30L-5 20']);
+    });
+
+    test('scales stroke widths with the transform', () => {
+        const ctx = new SvgContext(100, 100);
+        ctx.scale(2, 2);
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.lineTo(1, 1);
+        ctx.stroke();
+        expect(ctx.toSvg()).toContain('stroke-width="6"');
+    });
+
+    test('writes gradients into <defs> and paints with a reference to them', () => {
+        const ctx = new SvgContext(100, 100);
+        const gradient = ctx.createLinearGradient(0, 0, 10, 0);
+        gradient.addColorStop(0, '#000000');
+        gradient.addColorStop(1, 'rgba(255, 0, 0, 0.5)');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(50, 50, 10, 0, Math.PI * 2);
+        ctx.fill();
+
+        const svg = ctx.toSvg();
+        const defs = svg.slice(svg.indexOf('<defs>'), svg.indexOf('</defs>'));
+        expect(defs).toContain('<linearGradient id="g0" gradientUnits="userSpaceOnUse" x1="0" y1="0" x2="10" y2="0"');
+        expect(defs).toContain('<stop offset="1" stop-color="rgb(255,0,0)" stop-opacity="0.5"/>');
+        expect(svg).toContain('fill="url(#g0)"');
+    });
+
+    test('embeds an image drawn twice only once', () => {
+        const ctx = new SvgContext(100, 100);
+        const image = fakeCanvas(4, 2);
+        ctx.drawImage(image, 0, 0);
+        ctx.drawImage(image, 10, 10, 8, 4);
+
+        const svg = ctx.toSvg();
+        expect(svg.split('<image ').length - 1).toBe(1);
+        expect(svg.split('xlink:href="#i0"').length - 1).toBe(2);
+        expect(svg).toContain('transform="matrix(2 0 0 2 10 10)"');
+    });
+
+    test('restores styles and transform saved before changes', () => {
+        const ctx = new SvgContext(100, 100);
+        ctx.fillStyle = '#112233';
+        ctx.lineWidth = 2;
+        ctx.save();
+        ctx.fillStyle = '#445566';
+        ctx.lineWidth = 7;
+        ctx.globalAlpha = 0.5;
+        ctx.translate(50, 50);
+        ctx.restore();
+
+        expect(ctx.fillStyle).toBe('#112233');
+        expect(ctx.lineWidth).toBe(2);
+        expect(ctx.globalAlpha).toBe(1);
+        ctx.beginPath();
+        ctx.moveTo(1, 1);
+        ctx.lineTo(2, 2);
+        ctx.fill();
+        expect(ctx.toSvg()).toContain('<path d="M1 1L2 2" fill="#112233"/>');
+    });
+});
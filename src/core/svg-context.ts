@@ -0,0 +1,357 @@
+import type { Canvas, CanvasGradient, CanvasPattern, Image } from 'canvas';
+import * as fs from 'fs';
+import type { DrawingContext } from '../models/drawing-context';
+
+// Affine transform [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Matrix = [number, number, number, number, number, number];
+
+interface Point { x: number; y: number; }
+
+interface DrawingState {
+    matrix: Matrix;
+    fillStyle: string | CanvasGradient | CanvasPattern;
+    strokeStyle: string | CanvasGradient | CanvasPattern;
+    lineWidth: number;
+    lineCap: DrawingContext['lineCap'];
+    lineJoin: DrawingContext['lineJoin'];
+    globalAlpha: number;
+}
+
+class SvgGradient {
+    readonly stops: { offset: number; color: string }[] = [];
+
+    constructor(
+        readonly kind: 'linear' | 'radial',
+        readonly coords: number[]
+    ) {}
+
+    addColorStop(offset: number, color: string) {
+        this.stops.push({ offset, color });
+    }
+}
+
+/**
+ * Records canvas drawing calls as SVG. Paths are flattened into output
+ * coordinates as they are built, like a canvas does with the current
+ * transform, so only paints (gradients, images) carry a transform.
+ */
+export class SvgContext implements DrawingContext {
+    private width: number;
+    private height: number;
+    private state: DrawingState = {
+        matrix: [1, 0, 0, 1, 0, 0],
+        fillStyle: '#000000',
+        strokeStyle: '#000000',
+        lineWidth: 1,
+        lineCap: 'butt',
+        lineJoin: 'miter',
+        globalAlpha: 1,
+    };
+    private stack: DrawingState[] = [];
+    private path: string[] = [];
+    private current: Point | undefined;
+    private subpathStart: Point | undefined;
+    private defs: string[] = [];
+    private body: string[] = [];
+    private imageIds = new Map<Canvas | Image, string>();
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    get fillStyle() { return this.state.fillStyle; }
+    set fillStyle(value) { this.state.fillStyle = value; }
+    get strokeStyle() { return this.state.strokeStyle; }
+    set strokeStyle(value) { this.state.strokeStyle = value; }
+    get lineWidth() { return this.state.lineWidth; }
+    set lineWidth(value) { this.state.lineWidth = value; }
+    get lineCap() { return this.state.lineCap; }
+    set lineCap(value) { this.state.lineCap = value; }
+    get lineJoin() { return this.state.lineJoin; }
+    set lineJoin(value) { this.state.lineJoin = value; }
+    get globalAlpha() { return this.state.globalAlpha; }
+    set globalAlpha(value) { this.state.globalAlpha = value; }
+
+    save() {
+        this.stack.push({ ...this.state, matrix: [...this.state.matrix] });
+    }
+
+    restore() {
+        const previous = this.stack.pop();
+        if (previous) this.state = previous;
+    }
+
+    translate(x: number, y: number) {
+        const m = this.state.matrix;
+        m[4] += m[0] * x + m[2] * y;
+        m[5] += m[1] * x + m[3] * y;
+    }
+
+    rotate(angle: number) {
+        const [a, b, c, d] = this.state.matrix;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const m = this.state.matrix;
+        m[0] = a * cos + c * sin;
+        m[1] = b * cos + d * sin;
+        m[2] = c * cos - a * sin;
+        m[3] = d * cos - b * sin;
+    }
+
+    scale(x: number, y: number) {
+        const m = this.state.matrix;
+        m[0] *= x;
+        m[1] *= x;
+        m[2] *= y;
+        m[3] *= y;
+    }
+
+    beginPath() {
+        this.path = [];
+        this.current = undefined;
+        this.subpathStart = undefined;
+    }
+
+    closePath() {
+        if (!this.subpathStart) return;
+        this.path.push('Z');
+        this.current = this.subpathStart;
+    }
+
+    moveTo(x: number, y: number) {
+        const p = this.apply(x, y);
+        this.path.push(`M${fmt(p.x)} ${fmt(p.y)}`);
+        this.current = p;
+        this.subpathStart = p;
+    }
+
+    lineTo(x: number, y: number) {
+        if (!this.current) return this.moveTo(x, y);
+        const p = this.apply(x, y);
+        this.path.push(`L${fmt(p.x)} ${fmt(p.y)}`);
+        this.current = p;
+    }
+
+    quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+        if (!this.current) this.moveTo(cpx, cpy);
+        const c = this.apply(cpx, cpy);
+        const p = this.apply(x, y);
+        this.path.push(`Q${fmt(c.x)} ${fmt(c.y)} ${fmt(p.x)} ${fmt(p.y)}`);
+        this.current = p;
+    }
+
+    bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+        if (!this.current) this.moveTo(cp1x, cp1y);
+        const c1 = this.apply(cp1x, cp1y);
+        const c2 = this.apply(cp2x, cp2y);
+        const p = this.apply(x, y);
+        this.path.push(`C${fmt(c1.x)} ${fmt(c1.y)} ${fmt(c2.x)} ${fmt(c2.y)} ${fmt(p.x)} ${fmt(p.y)}`);
+        this.current = p;
+    }
+
+    arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise: boolean = false) {
+        this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+    }
+
+    ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, counterclockwise: boolean = false) {
+        const sweep = arcSweep(startAngle, endAngle, counterclockwise);
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        // Unit circle point -> ellipse in user space
+        const at = (u: number, v: number) => ({
+            x: x + cos * radiusX * u - sin * radiusY * v,
+            y: y + sin * radiusX * u + cos * radiusY * v,
+        });
+
+        const start = at(Math.cos(startAngle), Math.sin(startAngle));
+        if (this.current) this.lineTo(start.x, start.y);
+        else this.moveTo(start.x, start.y);
+
+        // Cubic segments of at most a quarter turn each; exact under any affine transform
+        const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+        const step = sweep / segments;
+        const k = 4 / 3 * Math.tan(step / 4);
+        for (let i = 0; i < segments; i++) {
+            const a0 = startAngle + step * i;
+            const a1 = a0 + step;
+            const c1 = at(Math.cos(a0) - k * Math.sin(a0), Math.sin(a0) + k * Math.cos(a0));
+            const c2 = at(Math.cos(a1) + k * Math.sin(a1), Math.sin(a1) - k * Math.cos(a1));
+            const end = at(Math.cos(a1), Math.sin(a1));
+            this.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+        }
+    }
+
+    fill(fillRule?: 'nonzero' | 'evenodd') {
+        if (this.path.length === 0) return;
+        const paint = this.paint(this.state.fillStyle);
+        const attrs = [`d="${this.path.join('')}"`, `fill="${paint.value}"`];
+        const opacity = paint.opacity * this.state.globalAlpha;
+        if (opacity < 1) attrs.push(`fill-opacity="${fmt(opacity)}"`);
+        if (fillRule === 'evenodd') attrs.push('fill-rule="evenodd"');
+        this.body.push(`<path ${attrs.join(' ')}/>`);
+    }
+
+    stroke() {
+        if (this.path.length === 0) return;
+        const paint = this.paint(this.state.strokeStyle);
+        const attrs = [
+            `d="${this.path.join('')}"`,
+            'fill="none"',
+            `stroke="${paint.value}"`,
+            // Line width is in user space, so it scales with the transform like on a canvas
+            `stroke-width="${fmt(this.state.lineWidth * this.scaleFactor())}"`,
+        ];
+        const opacity = paint.opacity * this.state.globalAlpha;
+        if (opacity < 1) attrs.push(`stroke-opacity="${fmt(opacity)}"`);
+        if (this.state.lineCap !== 'butt') attrs.push(`stroke-linecap="${this.state.lineCap}"`);
+        if (this.state.lineJoin !== 'miter') attrs.push(`stroke-linejoin="${this.state.lineJoin}"`);
+        else attrs.push('stroke-miterlimit="10"');
+        this.body.push(`<path ${attrs.join(' ')}/>`);
+    }
+
+    createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient {
+        return new SvgGradient('linear', [x0, y0, x1, y1]);
+    }
+
+    createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+        return new SvgGradient('radial', [x0, y0, r0, x1, y1, r1]);
+    }
+
+    drawImage(image: Canvas | Image, ...args: number[]) {
+        if (args.length !== 2 && args.length !== 4) {
+            throw new Error('SVG output does not support cropped drawImage calls');
+        }
+        const [dx = 0, dy = 0, dw = image.width, dh = image.height] = args;
+        if (image.width === 0 || image.height === 0) return;
+
+        // Each image is embedded once and placed by mapping its natural size onto the destination box
+        const [a, b, c, d, e, f] = this.state.matrix;
+        const sx = dw / image.width;
+        const sy = dh / image.height;
+        const attrs = [
+            `xlink:href="#${this.imageId(image)}"`,
+            `transform="${matrixAttr([a * sx, b * sx, c * sy, d * sy, a * dx + c * dy + e, b * dx + d * dy + f])}"`,
+        ];
+        if (this.state.globalAlpha < 1) attrs.push(`opacity="${fmt(this.state.globalAlpha)}"`);
+        this.body.push(`<use ${attrs.join(' ')}/>`);
+    }
+
+    toSvg(): string {
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}">`,
+            ...(this.defs.length > 0 ? ['<defs>', ...this.defs, '</defs>'] : []),
+            ...this.body,
+            '</svg>',
+            ''
+        ].join('\n');
+    }
+
+    private apply(x: number, y: number): Point {
+        const [a, b, c, d, e, f] = this.state.matrix;
+        return { x: a * x + c * y + e, y: b * x + d * y + f };
+    }
+
+    private scaleFactor(): number {
+        const [a, b, c, d] = this.state.matrix;
+        return Math.sqrt(Math.abs(a * d - b * c));
+    }
+
+    private paint(style: string | CanvasGradient | CanvasPattern): { value: string; opacity: number } {
+        if (typeof style === 'string') {
+            const { color, opacity } = parseColor(style);
+            return { value: color, opacity };
+        }
+        if (!(style instanceof SvgGradient)) {
+            throw new Error('SVG output does not support canvas patterns');
+        }
+
+        // Gradients live in the user space current at paint time, like on a canvas
+        const id = `g${this.defs.length}`;
+        const c = style.coords.map(v => fmt(v));
+        const stops = style.stops.map(stop => {
+            const { color, opacity } = parseColor(stop.color);
+            return `<stop offset="${fmt(stop.offset)}" stop-color="${color}"${opacity < 1 ? ` stop-opacity="${fmt(opacity)}"` : ''}/>`;
+        });
+        const geometry = style.kind === 'linear'
+            ? `x1="${c[0]}" y1="${c[1]}" x2="${c[2]}" y2="${c[3]}"`
+            : `fx="${c[0]}" fy="${c[1]}" fr="${c[2]}" cx="${c[3]}" cy="${c[4]}" r="${c[5]}"`;
+        const tag = style.kind === 'linear' ? 'linearGradient' : 'radialGradient';
+        this.defs.push(`<${tag} id="${id}" gradientUnits="userSpaceOnUse" ${geometry} gradientTransform="${matrixAttr(this.state.matrix)}">${stops.join('')}</${tag}>`);
+        return { value: `url(#${id})`, opacity: 1 };
+    }
+
+    private imageId(image: Canvas | Image): string {
+        let id = this.imageIds.get(image);
+        if (!id) {
+            id = `i${this.imageIds.size}`;
+            this.imageIds.set(image, id);
+            this.defs.push(`<image id="${id}" width="${image.width}" height="${image.height}" preserveAspectRatio="none" xlink:href="${dataUri(image)}"/>`);
+        }
+        return id;
+    }
+}
+
+function dataUri(image: Canvas | Image): string {
+    if ('toBuffer' in image) {
+        return `data:image/png;base64,${image.toBuffer('image/png').toString('base64')}`;
+    }
+    if (typeof image.src === 'string' && image.src.startsWith('data:')) {
+        return image.src;
+    }
+    const data = typeof image.src === 'string' ? fs.readFileSync(image.src) : image.src;
+    return `data:${sniffMimeType(data)};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Signed angle an arc covers, following the canvas rules: a full turn or
+ * more draws the whole circle, anything else wraps into one turn in the
+ * drawing direction.
+ */
+function arcSweep(start: number, end: number, counterclockwise: boolean): number {
+    const turn = Math.PI * 2;
+    if (!counterclockwise && end - start >= turn) return turn;
+    if (counterclockwise && start - end >= turn) return -turn;
+    const sweep = ((end - start) % turn + turn) % turn;
+    return counterclockwise ? (sweep === 0 ? 0 : sweep - turn) : sweep;
+}
+
+/**
+ * Splits CSS colours with alpha into an SVG colour plus opacity, since
+ * print tools often ignore the alpha in rgba() and #rrggbbaa.
+ */
+function parseColor(color: string): { color: string; opacity: number } {
+    const fn = color.trim().match(/^rgba?\(([^)]*)\)$/i);
+    if (fn) {
+        const [r, g, b, a] = fn[1]!.split(/[\s,/]+/).filter(Boolean);
+        // Canvas accepts fractional channels, many SVG renderers don't
+        const channel = (value: string | undefined) => Math.min(255, Math.max(0, Math.round(Number(value))));
+        return { color: `rgb(${channel(r)},${channel(g)},${channel(b)})`, opacity: a === undefined ? 1 : parseAlpha(a) };
+    }
+    const hex = color.trim().match(/^#([0-9a-f]{4}|[0-9a-f]{8})$/i);
+    if (hex) {
+        const digits = hex[1]!.length === 4 ? hex[1]!.replace(/./g, ch => ch + ch) : hex[1]!;
+        return { color: `#${digits.slice(0, 6)}`, opacity: parseInt(digits.slice(6), 16) / 255 };
+    }
+    return { color, opacity: 1 };
+}
+
+function parseAlpha(value: string): number {
+    return value.endsWith('%') ? Number(value.slice(0, -1)) / 100 : Number(value);
+}
+
+function sniffMimeType(data: Buffer): string {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+    if (data.subarray(0, 4).toString('latin1') === 'RIFF') return 'image/webp';
+    return 'image/png';
+}
+
+function matrixAttr(m: Matrix): string {
+    // Scale and rotation terms multiply every coordinate, so they need more precision
+    return `matrix(${m.map((v, i) => fmt(v, i < 4 ? 6 : 3)).join(' ')})`;
+}
+
+function fmt(value: number, decimals: number = 3): string {
+    const factor = 10 ** decimals;
+    return String(Math.round(value * factor) / factor);
+}
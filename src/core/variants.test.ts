@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { variantForSeed, variantSeed } from './variants';
+
+describe('variantForSeed', () => {
+    test('gives every catalog preview seed its own variant', () => {
+        for (const variants of [1, 3, 12]) {
+            for (let index = 0; index < variants; index++) {
+                expect(variantForSeed(variantSeed(index), variants)).toBe(index);
+            }
+        }
+    });
+
+    test('hashes other seeds onto a variant', () => {
+        for (const seed of ['alpha', '00012', '99999999999999999999']) {
+            const variant = variantForSeed(seed, 3);
+            expect(variant >= 0 && variant < 3).toBe(true);
+            expect(variantForSeed(seed, 3)).toBe(variant);
+        }
+        expect(variantForSeed(undefined, 3)).toBe(0);
+    });
+});
@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+
+export const BASE_SEED = '0';
+
+/**
+ * Seed of the `index`th variant: what cache-gen renders and the catalog
+ * previews, so previews match the cached assets.
+ */
+export function variantSeed(index: number, baseSeed: string = BASE_SEED): string {
+    return `${baseSeed}${index.toString().padStart(4, '0')}`;
+}
+
+/**
+ * Maps a seed onto one of `variants`, so the same seed always picks the same
+ * one. Numeric seeds below `variants`, like those from `variantSeed`, pick
+ * that variant directly; any other seed is hashed.
+ */
+export function variantForSeed(seed: string | undefined, variants: number): number {
+    if (!seed) return 0;
+    if (/^\d+$/.test(seed)) {
+        const index = Number(seed);
+        if (index < variants) return index;
+    }
+    const hash = createHash('sha256').update(seed).digest();
+    return hash.readUInt32BE(0) % variants;
+}
@@ -0,0 +1,21 @@
+import type { Generate } from '../models/generate';
+
+export function latestVersion(generate: Generate): number {
+    return generate.versions[generate.versions.length - 1]!;
+}
+
+/**
+ * The version to render: the latest when none is requested, otherwise the
+ * requested one. Throws for a version the generator doesn't have (any more).
+ * Callers that store what they rendered should keep the returned version,
+ * not the request, so later releases don't change it.
+ */
+export function resolveVersion(generate: Generate, requested?: number): number {
+    if (requested === undefined) {
+        return latestVersion(generate);
+    }
+    if (!generate.versions.includes(requested)) {
+        throw new Error(`Unknown generator version ${requested}; available: ${generate.versions.join(', ')}`);
+    }
+    return requested;
+}
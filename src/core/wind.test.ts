@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { swayBranches, WindField, type SwayableBranch } from './wind';
+
+function branch(start: { x: number; y: number }, end: { x: number; y: number }, strokeWidth: number, children: SwayableBranch[] = []): SwayableBranch {
+    const control = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+    return { start, end, control, strokeWidth, children, entities: [{ center: end, attachmentPoint: end, rotation: 0 }] };
+}
+
+// Every point of a hierarchy, flattened so two sways can be compared
+function points(b: SwayableBranch): number[] {
+    return [
+        b.start.x, b.start.y, b.end.x, b.end.y, b.control.x, b.control.y,
+        ...b.entities.flatMap(e => [e.center.x, e.center.y, e.rotation ?? 0]),
+        ...b.children.flatMap(points),
+    ];
+}
+
+function largestMove(from: number[], to: number[]): number {
+    return Math.max(...from.map((value, i) => Math.abs(value - to[i]!)));
+}
+
+const TREE = branch({ x: 0, y: 0 }, { x: 0, y: -100 }, 10, [
+    branch({ x: 0, y: -100 }, { x: 40, y: -160 }, 4, [branch({ x: 40, y: -160 }, { x: 70, y: -180 }, 1)]),
+    branch({ x: 0, y: -100 }, { x: -50, y: -150 }, 3),
+]);
+
+describe('WindField', () => {
+    test('ends the loop where it started', () => {
+        const field = new WindField('loop-seed');
+        const start = points(swayBranches(TREE, { field, loopPhase: 0 }));
+        const end = points(swayBranches(TREE, { field, loopPhase: 1 }));
+        expect(largestMove(start, end)).toBeLessThan(1e-9);
+
+        // ...and actually moves in between
+        const middle = points(swayBranches(TREE, { field, loopPhase: 0.5 }));
+        expect(largestMove(start, middle)).toBeGreaterThan(0.01);
+    });
+
+    test('blows the same way for the same seed', () => {
+        expect(new WindField('loop-seed').bendAt(0.3, 0.5)).toBe(new WindField('loop-seed').bendAt(0.3, 0.5));
+    });
+});
@@ -0,0 +1,114 @@
+import { SeededRandom } from './seeded-random';
+
+interface Point { x: number; y: number; }
+
+/**
+ * The parts of an entity's branch hierarchy that wind moves. Every
+ * branch-based entity's `Branch` and foliage entities fit this shape.
+ */
+export interface SwayableBranch {
+    start: Point;
+    end: Point;
+    control: Point;
+    strokeWidth: number;
+    children: SwayableBranch[];
+    entities: { center: Point; attachmentPoint?: Point; rotation?: number; }[];
+}
+
+interface Gust {
+    /** Whole cycles per loop, so the last frame runs seamlessly into the first */
+    cycles: number;
+    amplitude: number;
+    phase: number;
+    /** Spatial frequency across the tree, relative to the trunk length */
+    spread: number;
+}
+
+/**
+ * Seeded, looping wind made of a few gusts. `bendAt` returns how far a
+ * branch at (x, y) leans at a point in the loop, in radians; positive
+ * leans clockwise (downwind to the right).
+ */
+export class WindField {
+    private gusts: Gust[];
+    private lean: number;
+
+    constructor(seed: string, strength: number = 1) {
+        const rand = new SeededRandom(`${seed}:wind`);
+        // Prevailing direction: the whole tree leans a little one way and rocks around that
+        this.lean = (rand.nextBoolean() ? 1 : -1) * rand.nextFloat(0.004, 0.01) * strength;
+        this.gusts = [
+            { cycles: 1, amplitude: rand.nextFloat(0.012, 0.02), phase: rand.nextFloat(0, Math.PI * 2), spread: rand.nextFloat(0.5, 1) },
+            { cycles: 2, amplitude: rand.nextFloat(0.005, 0.01), phase: rand.nextFloat(0, Math.PI * 2), spread: rand.nextFloat(1, 2) },
+            { cycles: 3, amplitude: rand.nextFloat(0.002, 0.005), phase: rand.nextFloat(0, Math.PI * 2), spread: rand.nextFloat(2, 4) },
+        ].map(g => ({ ...g, amplitude: g.amplitude * strength }));
+    }
+
+    /**
+     * @param loopPhase position in the loop, 0 inclusive to 1 exclusive
+     * @param x horizontal position in units of the trunk length
+     */
+    bendAt(loopPhase: number, x: number): number {
+        let bend = this.lean;
+        for (const g of this.gusts) {
+            bend += Math.sin(Math.PI * 2 * g.cycles * loopPhase + g.phase - x * g.spread) * g.amplitude;
+        }
+        return bend;
+    }
+}
+
+/** Wind state for one idle frame. */
+export interface WindFrame {
+    field: WindField;
+    loopPhase: number;
+}
+
+// Running rigid transform: p' = R(angle) * p + (tx, ty)
+interface Transform { angle: number; cos: number; sin: number; tx: number; ty: number; }
+
+function apply(t: Transform, p: Point): Point {
+    return { x: t.cos * p.x - t.sin * p.y + t.tx, y: t.sin * p.x + t.cos * p.y + t.ty };
+}
+
+// parent ∘ (rotate by `delta` around `pivot`)
+function compose(parent: Transform, pivot: Point, delta: number): Transform {
+    const angle = parent.angle + delta;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // Pivot stays where the parent transform puts it
+    const moved = apply(parent, pivot);
+    return { angle, cos, sin, tx: moved.x - (cos * pivot.x - sin * pivot.y), ty: moved.y - (sin * pivot.x + cos * pivot.y) };
+}
+
+/**
+ * Returns a wind-bent copy of a branch hierarchy. Each branch pivots about
+ * its start on top of its parent's displacement, so children ride along
+ * with the branch they grow from, and thinner branches bend more.
+ */
+export function swayBranches<B extends SwayableBranch>(root: B, wind: WindFrame): B {
+    const trunkLength = Math.hypot(root.end.x - root.start.x, root.end.y - root.start.y) || 1;
+    const trunkWidth = root.strokeWidth || 1;
+    const identity: Transform = { angle: 0, cos: 1, sin: 0, tx: 0, ty: 0 };
+
+    const visit = (b: SwayableBranch, parent: Transform): SwayableBranch => {
+        const flexibility = 0.25 + 0.75 * (1 - Math.min(1, b.strokeWidth / trunkWidth));
+        const bend = wind.field.bendAt(wind.loopPhase, (b.start.x - root.start.x) / trunkLength) * flexibility;
+        const t = compose(parent, b.start, bend);
+
+        return {
+            ...b,
+            start: apply(t, b.start),
+            end: apply(t, b.end),
+            control: apply(t, b.control),
+            children: b.children.map(child => visit(child, t)),
+            entities: b.entities.map(e => ({
+                ...e,
+                center: apply(t, e.center),
+                ...(e.attachmentPoint ? { attachmentPoint: apply(t, e.attachmentPoint) } : {}),
+                ...(e.rotation !== undefined ? { rotation: e.rotation + t.angle } : {}),
+            })),
+        };
+    };
+
+    return visit(root, identity) as B;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { PassThrough, Writable } from 'stream';
+import { ZipWriter } from './zip';
+
+interface ReadEntry {
+    name: string;
+    crc: number;
+    size: number;
+    data: Buffer;
+}
+
+/** Reads a stored archive back through its central directory, as unzip does. */
+function readZip(archive: Buffer): ReadEntry[] {
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+    const count = archive.readUInt16LE(end + 10);
+    let record = archive.readUInt32LE(end + 16);
+
+    const entries: ReadEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(archive.readUInt32LE(record)).toBe(0x02014b50);
+        const crc = archive.readUInt32LE(record + 16);
+        const size = archive.readUInt32LE(record + 24);
+        const nameLength = archive.readUInt16LE(record + 28);
+        const name = archive.subarray(record + 46, record + 46 + nameLength).toString('utf-8');
+        const local = archive.readUInt32LE(record + 42);
+
+        expect(archive.readUInt32LE(local)).toBe(0x04034b50);
+        expect(archive.readUInt32LE(local + 14)).toBe(crc);
+        expect(archive.readUInt32LE(local + 22)).toBe(size);
+        const start = local + 30 + archive.readUInt16LE(local + 26);
+        entries.push({ name, crc, size, data: archive.subarray(start, start + size) });
+        record += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe('ZipWriter', () => {
+    test('writes entries that read back with their names, sizes and CRCs', async () => {
+        const out = new PassThrough();
+        const chunks: Uint8Array[] = [];
+        out.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+        const zip = new ZipWriter(out);
+        await zip.add('frame_00000.png', Buffer.from('hello'));
+        await zip.add('blätter/frame_00001.png', Buffer.alloc(70_000, 7));
+        await zip.add('empty.png', Buffer.alloc(0));
+        await zip.end();
+
+        const entries = readZip(Buffer.concat(chunks));
+        expect(entries.map(entry => entry.name).join(',')).toBe('frame_00000.png,blätter/frame_00001.png,empty.png');
+        expect(entries.map(entry => entry.size).join(',')).toBe('5,70000,0');
+        // Reference CRC-32s of the contents
+        expect(entries.map(entry => entry.crc.toString(16)).join(',')).toBe('3610a686,691342cd,0');
+        expect(entries[0]!.data.toString()).toBe('hello');
+        expect(entries[1]!.data.every(byte => byte === 7)).toBe(true);
+    });
+
+    test('waits for a full stream to drain, then stops listening', async () => {
+        const out = new PassThrough({ highWaterMark: 1 });
+        const zip = new ZipWriter(out);
+        const added = zip.add('frame_00000.png', Buffer.from('hello'));
+        expect(out.listenerCount('drain')).toBe(1);
+        expect(out.listenerCount('error')).toBe(1);
+
+        out.resume();
+        await added;
+        expect(out.listenerCount('drain')).toBe(0);
+        expect(out.listenerCount('error')).toBe(0);
+    });
+
+    test('rejects when the stream errors instead of draining', async () => {
+        // Never acknowledges a write, like a client that stopped reading
+        const out = new Writable({ highWaterMark: 1, write() {} });
+        const zip = new ZipWriter(out);
+        const added = zip.add('frame_00000.png', Buffer.from('hello')).catch((err: Error) => err);
+
+        out.destroy(new Error('client went away'));
+        expect(((await added) as Error).message).toBe('client went away');
+        expect(out.listenerCount('drain')).toBe(0);
+        expect(out.listenerCount('error')).toBe(0);
+    });
+});
@@ -0,0 +1,100 @@
+import type { Writable } from 'stream';
+import { crc32 } from 'zlib';
+
+// 1980-01-01 00:00, the earliest DOS timestamp; keeps archives byte-identical between renders
+const DOS_EPOCH = (1 << 21) | (1 << 16);
+
+interface CentralEntry {
+    name: Buffer;
+    crc: number;
+    size: number;
+    offset: number;
+}
+
+/**
+ * Streams an uncompressed (stored) zip archive. Entries are written as they
+ * arrive, so only the small central directory is held until `end`. PNGs are
+ * already deflated, so compressing them again would gain nothing.
+ */
+export class ZipWriter {
+    private out: Writable;
+    private entries: CentralEntry[] = [];
+    private offset = 0;
+
+    constructor(out: Writable) {
+        this.out = out;
+    }
+
+    async add(filename: string, data: Buffer): Promise<void> {
+        const name = Buffer.from(filename, 'utf-8');
+        const crc = crc32(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);   // Local file header signature
+        header.writeUInt16LE(20, 4);           // Version needed (2.0)
+        header.writeUInt16LE(0x0800, 6);       // UTF-8 names
+        header.writeUInt16LE(0, 8);            // Stored
+        header.writeUInt32LE(DOS_EPOCH, 10);
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(data.length, 18); // Compressed size
+        header.writeUInt32LE(data.length, 22); // Uncompressed size
+        header.writeUInt16LE(name.length, 26);
+        header.writeUInt16LE(0, 28);           // Extra field length
+
+        this.entries.push({ name, crc, size: data.length, offset: this.offset });
+        await this.write(header);
+        await this.write(name);
+        await this.write(data);
+    }
+
+    async end(): Promise<void> {
+        const directoryOffset = this.offset;
+        for (const entry of this.entries) {
+            const record = Buffer.alloc(46);
+            record.writeUInt32LE(0x02014b50, 0); // Central directory signature
+            record.writeUInt16LE(20, 4);         // Version made by
+            record.writeUInt16LE(20, 6);         // Version needed
+            record.writeUInt16LE(0x0800, 8);
+            record.writeUInt16LE(0, 10);
+            record.writeUInt32LE(DOS_EPOCH, 12);
+            record.writeUInt32LE(entry.crc, 16);
+            record.writeUInt32LE(entry.size, 20);
+            record.writeUInt32LE(entry.size, 24);
+            record.writeUInt16LE(entry.name.length, 28);
+            // Extra, comment, disk number and attributes stay zero
+            record.writeUInt32LE(entry.offset, 42);
+            await this.write(record);
+            await this.write(entry.name);
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);      // End of central directory signature
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(this.offset - directoryOffset, 12);
+        end.writeUInt32LE(directoryOffset, 16);
+
+        await this.write(end);
+        this.out.end();
+    }
+
+    private write(chunk: Buffer): Promise<void> {
+        this.offset += chunk.length;
+        return new Promise<void>((resolve, reject) => {
+            if (this.out.write(chunk, err => { if (err) reject(err); })) {
+                resolve();
+            } else {
+                // A stream that errors never drains, so either event settles the wait
+                const onDrain = () => {
+                    this.out.off('error', onError);
+                    resolve();
+                };
+                const onError = (err: Error) => {
+                    this.out.off('drain', onDrain);
+                    reject(err);
+                };
+                this.out.once('drain', onDrain);
+                this.out.once('error', onError);
+            }
+        });
+    }
+}
@@ -9,8 +9,41 @@ import {  WeepingWillow } from "./entities/weeping-willow";
 import { Maple } from "./entities/maple";
 import { Wisteria } from "./entities/wisteria";
 import type { Entity } from "./models/entity";
-import { LocalEntity } from "./entities/local-entity";
+import { LocalEntity, type LocalEntityParams } from "./entities/local-entity";
 import { Weathered } from "./entities/weathered";
+import * as path from "path";
+import { loadEntityManifests, type GeneratorKind } from "./core/plugins";
+
+const PLUGIN_DIRECTORY = process.env.ENTITY_PLUGIN_DIR || path.join(__dirname, "..", "plugins");
+
+/**
+ * Generators a plugin manifest can refer to by `generator.kind`.
+ */
+export const generatorKinds: ReadonlyMap<string, GeneratorKind> = new Map<string, GeneratorKind>([
+    ["tree", { params: [], create: () => new Tree() }],
+    ["sakura", { params: [], create: () => new Sakura() }],
+    ["sunflower", { params: [], create: () => new Sunflower() }],
+    ["cedar", { params: [], create: () => new Cedar() }],
+    ["lavender", { params: [], create: () => new Lavender() }],
+    ["pink_balls_tree", { params: [], create: () => new PinkBallsTree() }],
+    ["maple", { params: [], create: () => new Maple() }],
+    ["wisteria", { params: [], create: () => new Wisteria() }],
+    ["weeping_willow", { params: [], create: () => new WeepingWillow() }],
+    ["weathered", { params: [], create: () => new Weathered() }],
+    ["local", {
+        // The number of videos comes from the manifest's "variants"
+        params: ["videoFilename", "videoDirectory"],
+        create: (params) => {
+            if (typeof params.videoFilename !== "string") {
+                throw new Error('"local" generator requires a "videoFilename" param');
+            }
+            if (params.videoDirectory !== undefined && typeof params.videoDirectory !== "string") {
+                throw new Error('"videoDirectory" param must be a string');
+            }
+            return new LocalEntity(params as LocalEntityParams);
+        },
+    }],
+]);
 
 
 const defaultEntity: Entity = {
@@ -95,13 +128,6 @@ export const entities: Map<string, Entity> = new Map<string, Entity>([
         generate: new WeepingWillow(),
         variants: 10,
     }],
-    ["lit_tree", {
-        ...defaultEntity,
-        name: "Lit Tree",
-        description: "A christmas tree with lights.",
-        basePrice: 200,
-        generate: new LocalEntity({ videoFilename: "lit_tree" }),
-    }],
     ["weathered", {
         ...defaultEntity,
         name: "Weathered Tree",
@@ -110,4 +136,30 @@ export const entities: Map<string, Entity> = new Map<string, Entity>([
         generate: new Weathered(),
         isGrowable: false
     }]
-]);
\ No newline at end of file
+]);
+
+for (const { file, manifest } of await loadEntityManifests(PLUGIN_DIRECTORY, generatorKinds)) {
+    if (entities.has(manifest.id)) {
+        throw new Error(`${file}: entity id "${manifest.id}" is already registered`);
+    }
+    const variants = manifest.variants ?? defaultEntity.variants;
+    const generatorParams = { ...manifest.generator.params, variants };
+    let generate: Generate;
+    try {
+        generate = generatorKinds.get(manifest.generator.kind)!.create(generatorParams);
+    } catch (err) {
+        throw new Error(`${file}: ${err instanceof Error ? err.message : err}`);
+    }
+    entities.set(manifest.id, {
+        ...defaultEntity,
+        name: manifest.name,
+        description: manifest.description,
+        creator: manifest.creator ?? defaultEntity.creator,
+        donate: manifest.donate ?? defaultEntity.donate,
+        variants,
+        basePrice: manifest.basePrice,
+        isGrowable: manifest.isGrowable ?? defaultEntity.isGrowable,
+        generate,
+        generatorParams,
+    });
+}
@@ -1,14 +1,11 @@
-import { createCanvas, CanvasRenderingContext2D } from 'canvas';
-import { spawn, type ChildProcessWithoutNullStreams, type ChildProcess } from 'child_process';
-import * as fs from 'fs';
 import { SeededRandom } from '../core/seeded-random';
 import type { Color } from '../types/color';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { Generate } from '../models/generate';
-import type { GeneratorResult } from '../types/generator-result';
-import type { Context } from 'baojs';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
-import { buffer } from 'stream/consumers';
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import type { DrawingContext } from '../models/drawing-context';
 
 class Vector2 { constructor(public x: number, public y: number) {} }
 
@@ -31,8 +28,6 @@ class SimpleBranch {
     constructor(public start: Vector2, public end: Vector2, public strokeWidth: number, public control: Vector2) {}
 }
 
-interface Bounds { minX: number; maxX: number; minY: number; maxY: number; }
-
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 const smoothStep = (t: number): number => t * t * (3 - 2 * t);
 
@@ -117,6 +112,13 @@ function calculateBounds(b: Branch, cur: Bounds = { minX: Infinity, maxX: -Infin
     return cur;
 }
 
+// Foliage pads are drawn as ellipses 1.6x wider than tall
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.forEach(e => includeBox(bounds, e.center.x, e.center.y, e.radius * 1.6, e.radius));
+    b.children.forEach(c => calculateCanopyBounds(c, bounds));
+    return bounds;
+}
+
 function flattenTree(b: Branch, bList: SimpleBranch[], eList: Entity[], progress: number, scale: number, ox: number, oy: number) {
     const ts = new Vector2(b.start.x * scale + ox, b.start.y * scale + oy);
     const te = new Vector2(b.end.x * scale + ox, b.end.y * scale + oy);
@@ -144,150 +146,58 @@ function flattenTree(b: Branch, bList: SimpleBranch[], eList: Entity[], progress
     b.children.forEach(c => flattenTree(c, bList, eList, progress, scale, ox, oy));
 }
 
-export class Cedar implements Generate {
-    getInfo(config?: Config): Promise<GeneratorResult> {
-        if (!config) {
-            throw new Error('Config is required to get tree info.');
-        }
+interface CedarScene {
+    tree: Branch;
+}
 
-        const rand = new SeededRandom(config.seed);
-        const fullTree = generateCedar(rand, new Vector2(0,0), 220, -90, 8, 0);
-        const bounds = calculateBounds(fullTree);
-        
-        const treeW = bounds.maxX - bounds.minX;
-        const scale = Math.min((config.width - config.padding*2) / treeW, (config.height - config.padding*2) / (bounds.maxY - bounds.minY));
-        const offX = (config.width / 2) - ((bounds.minX + treeW/2) * scale);
-        const offY = (config.height - config.padding) - (bounds.maxY * scale);
+// Growth distance at which every branch and foliage pad has finished growing
+const MAX_GROWTH = 3500;
 
-        return Promise.resolve({
-            trunkStartPosition: { x: offX, y: offY }
-        });
+export class Cedar extends SceneGenerator<CedarScene> {
+    protected async buildScene(config: Config): Promise<CedarScene> {
+        const rand = new SeededRandom(config.seed);
+        return { tree: generateCedar(rand, new Vector2(0,0), 220, -90, 8, 0) };
     }
 
-    async generate(con: Context, onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
-        const rand = new SeededRandom(CONFIG.seed);
-
-        console.log("📐 Planning perfect-fit cedar structure...");
-        const fullTree = generateCedar(rand, new Vector2(0,0), 220, -90, 8, 0);
-        const bounds = calculateBounds(fullTree);
-        
-        // Auto-fit Logic
-        const treeW = bounds.maxX - bounds.minX;
-        const treeH = bounds.maxY - bounds.minY;
-        const scale = Math.min((CONFIG.width - CONFIG.padding*2) / treeW, (CONFIG.height - CONFIG.padding*2) / treeH);
-        const offX = (CONFIG.width / 2) - ((bounds.minX + treeW/2) * scale);
-        const offY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * scale);
-
-        if (CONFIG.photoOnly) {
-            console.log("📸 Generating final cedar image only (video creation skipped).");
-            const progress = 3500;
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const branches: SimpleBranch[] = [];
-            const entities: Entity[] = [];
-            flattenTree(fullTree, branches, entities, progress, scale, offX, offY);
-
-            // Draw Bark
-            ctx.lineCap = 'round';
-            ctx.strokeStyle = '#3e2723'; // Dark bark
-            branches.forEach(b => {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            });
-
-            // Draw Foliage Ellipses
-            entities.sort((a,b) => a.center.y - b.center.y);
-            entities.forEach(e => {
-                ctx.globalAlpha = e.opacity || 0;
-                const g = ctx.createRadialGradient(e.center.x, e.center.y - e.radius*0.3, 0, e.center.x, e.center.y, e.radius);
-                g.addColorStop(0, `rgb(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b})`);
-                g.addColorStop(1, `rgb(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b})`);
-                ctx.fillStyle = g;
-                ctx.beginPath();
-                ctx.ellipse(e.center.x, e.center.y, e.radius * 1.6, e.radius, 0, 0, Math.PI * 2);
-                ctx.fill();
-            });
-            ctx.globalAlpha = 1.0;
-
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-            console.log(`\n✅ Image generation complete!`);
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: offX, y: offY }
-            };
-        }
-
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-
-        if (onStream) {
-            onStream(ffmpeg, ffmpeg.stdout);
-        }
-
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-        const maxGrowth = 3500; 
-
-        for (let f = 0; f <= totalFrames; f++) {
-            const progress = (f / totalFrames) * maxGrowth;
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const branches: SimpleBranch[] = [];
-            const entities: Entity[] = [];
-            flattenTree(fullTree, branches, entities, progress, scale, offX, offY);
-
-            // Draw Bark
-            ctx.lineCap = 'round';
-            ctx.strokeStyle = '#3e2723'; // Dark bark
-            branches.forEach(b => {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            });
-
-            // Draw Foliage Ellipses
-            entities.sort((a,b) => a.center.y - b.center.y);
-            entities.forEach(e => {
-                ctx.globalAlpha = e.opacity || 0;
-                const g = ctx.createRadialGradient(e.center.x, e.center.y - e.radius*0.3, 0, e.center.x, e.center.y, e.radius);
-                g.addColorStop(0, `rgb(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b})`);
-                g.addColorStop(1, `rgb(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b})`);
-                ctx.fillStyle = g;
-                ctx.beginPath();
-                ctx.ellipse(e.center.x, e.center.y, e.radius * 1.6, e.radius, 0, 0, Math.PI * 2);
-                ctx.fill();
-            });
+    protected layout(scene: CedarScene, config: Config): Layout {
+        return fitToBounds(calculateBounds(scene.tree), config);
+    }
 
-            ctx.globalAlpha = 1.0;
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-        }
+    protected measure(scene: CedarScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
+    }
 
-        ffmpeg.stdin.end();
+    protected drawFrame(ctx: DrawingContext, scene: CedarScene, layout: Layout, frame: Frame) {
+        const progress = frame.t * MAX_GROWTH;
+
+        const branches: SimpleBranch[] = [];
+        const entities: Entity[] = [];
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTree(tree, branches, entities, progress, layout.scale, layout.offsetX, layout.offsetY);
+
+        // Draw Bark
+        ctx.lineCap = 'round';
+        ctx.strokeStyle = '#3e2723'; // Dark bark
+        branches.forEach(b => {
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth;
+            ctx.moveTo(b.start.x, b.start.y);
+            ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
+            ctx.stroke();
+        });
 
-        // Wait for FFmpeg to finish encoding
-        await new Promise<void>((resolve, reject) => {
-            (ffmpeg as any).on('close', (code: number | null) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            (ffmpeg as any).on('error', reject);
+        // Draw Foliage Ellipses
+        entities.sort((a,b) => a.center.y - b.center.y);
+        entities.forEach(e => {
+            ctx.globalAlpha = e.opacity || 0;
+            const g = ctx.createRadialGradient(e.center.x, e.center.y - e.radius*0.3, 0, e.center.x, e.center.y, e.radius);
+            g.addColorStop(0, `rgb(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b})`);
+            g.addColorStop(1, `rgb(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b})`);
+            ctx.fillStyle = g;
+            ctx.beginPath();
+            ctx.ellipse(e.center.x, e.center.y, e.radius * 1.6, e.radius, 0, 0, Math.PI * 2);
+            ctx.fill();
         });
-        
-        return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: offX, y: offY }
-        };
+        ctx.globalAlpha = 1.0;
     }
 }
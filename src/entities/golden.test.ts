@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'bun:test';
+import { createCanvas, loadImage, type Image } from 'canvas';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { entities } from '../entities';
+import { SceneGenerator } from '../core/renderer';
+import { diffImages } from '../core/image-diff';
+import { SEASONS } from '../core/seasons';
+import { latestVersion } from '../core/versions';
+import { DEFAULT_CONFIG } from '../types/config';
+import type { Season } from '../types/season';
+
+const GOLDEN_DIRECTORY = path.join(__dirname, '..', '..', 'goldens');
+const DIFF_DIRECTORY = path.join(GOLDEN_DIRECTORY, 'diff');
+const SEEDS = ['golden-1', 'golden-2'];
+// Share of pixels allowed to differ, for anti-aliasing differences between canvas builds
+const MAX_MISMATCH = 0.001;
+const BLESS = process.env.BLESS_GOLDENS === '1';
+
+function pixels(image: Image): Uint8ClampedArray {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+    return ctx.getImageData(0, 0, image.width, image.height).data;
+}
+
+function writeDiff(name: string, actual: Buffer, diff: Uint8ClampedArray, width: number, height: number): string {
+    mkdirSync(DIFF_DIRECTORY, { recursive: true });
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    const imageData = ctx.createImageData(width, height);
+    imageData.data.set(diff);
+    ctx.putImageData(imageData, 0, 0);
+
+    const diffPath = path.join(DIFF_DIRECTORY, `${name}.diff.png`);
+    writeFileSync(diffPath, canvas.toBuffer('image/png'));
+    writeFileSync(path.join(DIFF_DIRECTORY, `${name}.actual.png`), actual);
+    return diffPath;
+}
+
+/** Renders a still for the golden comparison; every call must produce the same bytes. */
+async function render(type: string, version: number, seed: string, season?: Season): Promise<Buffer> {
+    const result = await entities.get(type)!.generate.generate(null as any, undefined, {
+        ...DEFAULT_CONFIG,
+        seed,
+        version,
+        season,
+        photoOnly: true,
+        save_as_file: false
+    });
+    return result.imageBuffer!;
+}
+
+/**
+ * Compares a render with `goldens/<name>.png`. Older versions are a
+ * published contract, so blessing only ever creates their missing goldens.
+ */
+async function expectGolden(name: string, actual: Buffer, latest: boolean) {
+    const goldenPath = path.join(GOLDEN_DIRECTORY, `${name}.png`);
+    if (BLESS && (latest || !existsSync(goldenPath))) {
+        mkdirSync(GOLDEN_DIRECTORY, { recursive: true });
+        writeFileSync(goldenPath, actual);
+        return;
+    }
+    if (!existsSync(goldenPath)) {
+        throw new Error(`No golden image for ${name}; run \`bun run test:bless\` to create it`);
+    }
+
+    const expected = await loadImage(goldenPath);
+    const rendered = await loadImage(actual);
+    if (expected.width !== rendered.width || expected.height !== rendered.height) {
+        throw new Error(`${name} is ${rendered.width}x${rendered.height}, golden is ${expected.width}x${expected.height}`);
+    }
+
+    const { mismatched, total, diff } = diffImages(pixels(expected), pixels(rendered));
+    if (mismatched / total > MAX_MISMATCH) {
+        const diffPath = writeDiff(name, actual, diff, expected.width, expected.height);
+        throw new Error(`${name} differs from its golden in ${mismatched} of ${total} pixels; see ${diffPath}`);
+    }
+    rmSync(path.join(DIFF_DIRECTORY, `${name}.diff.png`), { force: true });
+    rmSync(path.join(DIFF_DIRECTORY, `${name}.actual.png`), { force: true });
+}
+
+// Local artwork entities replay videos that are not part of the repo
+const drawnEntities = [...entities].filter(([, entity]) => entity.generate instanceof SceneGenerator).map(([type]) => type);
+
+describe('golden images', () => {
+    for (const type of drawnEntities) {
+        const generate = entities.get(type)!.generate;
+        const latest = latestVersion(generate);
+
+        for (const version of generate.versions) {
+            for (const seed of SEEDS) {
+                test(`${type} v${version} grows the same tree for seed ${seed}`, async () => {
+                    await expectGolden(`${type}-v${version}-${seed}`, await render(type, version, seed), version === latest);
+                });
+            }
+        }
+    }
+});
+
+// Bare winter branches, falling autumn leaves and denser spring blossom; other plants only get a colour grade
+const seasonalEntities = drawnEntities.filter(type => {
+    const generate = entities.get(type)!.generate;
+    return generate instanceof SceneGenerator && generate.seasonalGeometry;
+});
+
+describe('seasonal golden images', () => {
+    for (const type of seasonalEntities) {
+        const generate = entities.get(type)!.generate;
+        const latest = latestVersion(generate);
+
+        for (const version of generate.versions) {
+            for (const season of SEASONS) {
+                test(`${type} v${version} grows the same ${season} tree`, async () => {
+                    await expectGolden(`${type}-v${version}-${season}-${SEEDS[0]}`, await render(type, version, SEEDS[0]!, season), version === latest);
+                });
+            }
+        }
+    }
+});
+
+// Goldens tolerate anti-aliasing noise between canvas builds; within one process a seed must be exact
+describe('determinism', () => {
+    for (const type of drawnEntities) {
+        test(`${type} renders identical bytes for the same seed`, async () => {
+            const version = latestVersion(entities.get(type)!.generate);
+            const first = await render(type, version, SEEDS[0]!);
+            const second = await render(type, version, SEEDS[0]!);
+            expect(second).toEqual(first);
+        });
+    }
+});
@@ -1,19 +1,29 @@
 import { spawn, type ChildProcessWithoutNullStreams, type ChildProcess } from 'child_process';
+import { loadImage } from 'canvas';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import type { Generate } from '../models/generate';
 import type { Context } from 'baojs';
 import type { Config } from '../types/config';
 import type { GeneratorResult } from '../types/generator-result';
+import { atlasProgress, finishSpriteSheet, SpriteSheet } from '../core/sprite-sheet';
+import { resolveVersion } from '../core/versions';
+import { variantForSeed } from '../core/variants';
 
 export interface LocalEntityParams {
     videoDirectory?: string; // Defaults to 'raw_tree_arts'
     videoFilename?: string; // Optional: specific video file, otherwise picks first video found
+    variants?: number; // Number of <n>.mp4 files in the video folder, defaults to 1
 }
 
 const DEFAULT_VIDEO_DIRECTORY = 'trease-artwork';
 
 export class LocalEntity implements Generate {
+    // Artwork videos are fixed files, so there is only ever one version
+    readonly versions = [1];
+    // Idle sway bends the drawn branches, so pre-rendered artwork can't do it
+    readonly supportsIdle = false;
     private params: LocalEntityParams;
 
     constructor(params: LocalEntityParams) {
@@ -21,12 +31,28 @@ export class LocalEntity implements Generate {
     }
 
     async getInfo(config?: Config): Promise<GeneratorResult> {
-        const videoPath = await this.getVideoPath(0);
+        resolveVersion(this, config?.version);
+        const videoPath = await this.getVideoPath(this.variantFor(config?.seed));
+        const [duration, { width, height }] = await Promise.all([
+            this.getVideoDuration(videoPath),
+            this.getVideoDimensions(videoPath)
+        ]);
+
+        // Local artwork is not measured; assume it fills the frame and grows from the bottom centre
+        const bounds = { minX: 0, maxX: width, minY: 0, maxY: height };
         return {
-            videoPath
+            videoPath,
+            trunkStartPosition: { x: width / 2, y: height },
+            bounds,
+            canopyBounds: bounds,
+            growthDurationSeconds: duration
         };
     }
 
+    private variantFor(seed: string | undefined): number {
+        return variantForSeed(seed, this.params.variants ?? 1);
+    }
+
     private async getVideoPath(variant: number): Promise<string> {
         const { videoFilename } = this.params;
         const videoDirectory = this.params.videoDirectory || DEFAULT_VIDEO_DIRECTORY;
@@ -109,13 +135,13 @@ export class LocalEntity implements Generate {
         });
     }
 
-    private extractFinalFrame(videoPath: string, outputImagePath: string): Promise<void> {
+    private extractFrame(videoPath: string, outputImagePath: string, progress: number = 1): Promise<void> {
         return new Promise(async (resolve, reject) => {
             try {
                 const duration = await this.getVideoDuration(videoPath);
                 
-                // Seek to slightly before the end to get the last frame
-                const seekTime = Math.max(0, duration - 0.1);
+                // Seek to slightly before the end so progress 1 still lands on the last frame
+                const seekTime = Math.max(0, Math.min(duration * progress, duration - 0.1));
 
                 const ffmpeg = spawn('ffmpeg', [
                     '-y', // Overwrite output file
@@ -159,25 +185,63 @@ export class LocalEntity implements Generate {
         });
     }
 
+    private async generateAtlas(videoPath: string, config: Config): Promise<GeneratorResult> {
+        const progresses = atlasProgress(config.atlasFrames!);
+        const [duration, { width, height }] = await Promise.all([
+            this.getVideoDuration(videoPath),
+            this.getVideoDimensions(videoPath)
+        ]);
+        const sheet = new SpriteSheet(width, height, progresses.length);
+        const frameDir = fs.mkdtempSync(path.join(os.tmpdir(), 'atlas-'));
+        try {
+            for (const [i, progress] of progresses.entries()) {
+                const framePath = path.join(frameDir, `${i}.png`);
+                await this.extractFrame(videoPath, framePath, progress);
+                sheet.add(await loadImage(framePath), {
+                    progress,
+                    time: duration * progress,
+                    // Same assumption as getInfo: the artwork grows from the bottom centre
+                    anchor: { x: width / 2, y: height }
+                });
+            }
+        } finally {
+            fs.rmSync(frameDir, { recursive: true, force: true });
+        }
+        return finishSpriteSheet(sheet, config, { x: width / 2, y: height });
+    }
+
     async generate(
         ctx: Context,
         onStream?: (process: ChildProcessWithoutNullStreams, videoStream: ChildProcessWithoutNullStreams['stdout']) => void,
         config?: Config
     ): Promise<GeneratorResult> {
         console.log("Generating from local video");
+        resolveVersion(this, config?.version);
 
-        const videoPath = await this.getVideoPath(config?.seed ? parseInt(config.seed, 10) : 0);
+        const videoPath = await this.getVideoPath(this.variantFor(config?.seed));
         console.log(`   Video path: ${videoPath}`);
 
+        if (config?.imageFormat === 'svg') {
+            throw new Error('SVG export needs a drawn entity; local artwork is only available as video');
+        }
+        if (!config?.photoOnly && config?.atlasFrames === undefined && (config?.format ?? 'webm') !== 'webm') {
+            throw new Error(`Local artwork is only available as webm, not ${config?.format}`);
+        }
+        if (config?.atlasFrames !== undefined) {
+            return this.generateAtlas(videoPath, config);
+        }
+
         // Determine output image path
         const videoDir = path.dirname(videoPath);
         const videoBasename = path.basename(videoPath, path.extname(videoPath));
-        const imagePath = path.join(videoDir, `${videoBasename}_final_frame.png`);
+        const progress = config?.progress ?? 1;
+        const frameName = progress >= 1 ? 'final_frame' : `frame_${progress}`;
+        const imagePath = path.join(videoDir, `${videoBasename}_${frameName}.png`);
 
-        // Extract the final frame from the video
-        console.log(`   Extracting final frame to: ${imagePath}`);
+        // Extract the requested frame from the video
+        console.log(`   Extracting frame at progress ${progress} to: ${imagePath}`);
         if(config?.photoOnly){
-            await this.extractFinalFrame(videoPath, imagePath);
+            await this.extractFrame(videoPath, imagePath, progress);
             return {
                 imagePath
             };
@@ -1,62 +1,41 @@
-import { createCanvas, CanvasRenderingContext2D, loadImage, Image } from 'canvas';
-import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
-import * as fs from 'fs';
-import * as path from 'path';
+import { loadImage, Image } from 'canvas';
 import { SeededRandom } from '../core/seeded-random';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { Generate } from '../models/generate';
-import type { GeneratorResult } from '../types/generator-result';
-import type { Context } from 'baojs';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
-
-export class Maple implements Generate {
-
-    getInfo(config?: Config): Promise<GeneratorResult> {
-        if (!config) throw new Error('Config is required.');
-        
-        // Dummy run for bounds calculation
-        const rand = new SeededRandom(config.seed);
-        const startPos = new Vector2(0, 0);
-        const initialLength = 180;
-        const maxDepth = 8;
-        
-        const fullTree = generateWillowStructure(rand, startPos, initialLength, -90, maxDepth, maxDepth, 0);
-        const bounds = calculateBounds(fullTree);
-        
-        const scale = Math.min(
-            (config.width - config.padding * 2) / (bounds.maxX - bounds.minX),
-            (config.height - config.padding * 2) / (bounds.maxY - bounds.minY)
-        );
-        
-        const treeCenterX = bounds.minX + (bounds.maxX - bounds.minX) / 2;
-        const offsetX = config.width / 2 - treeCenterX * scale;
-        const offsetY = (config.height - config.padding) - bounds.maxY * scale;
-        
-        return Promise.resolve({ trunkStartPosition: { x: offsetX, y: offsetY } });
-    }
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import { drawSnowCaps, leafFallOffset, planLeafFall, seasonRandom, type LeafFall } from '../core/seasons';
+import type { Season } from '../types/season';
+import type { DrawingContext } from '../models/drawing-context';
+
+interface MapleScene {
+    tree: Branch;
+    maxDistance: number;
+    foliageImg: Image;
+    /** Bounds of the tree in full leaf, so every season is fitted at the same size */
+    layoutBounds: Bounds;
+    season?: Season;
+}
 
-    async generate(con: Context, onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        console.log("Generating Weeping Willow with Assets");
+export class Maple extends SceneGenerator<MapleScene> {
+    readonly seasonalGeometry = true;
 
+    protected async buildScene(config: Config): Promise<MapleScene> {
         let foliageImg: Image;
         try {
-             // Using the exact path snippet provided
-             foliageImg = await loadImage("./assets/maple_leaf.png");
-             console.log("Asset loaded successfully.");
+            foliageImg = await loadImage("./assets/maple_leaf.png");
         } catch (e) {
-            console.error(`FAILED to load foliage image. Ensure './assets/weeping_willow.png' exists.`);
+            console.error(`FAILED to load foliage image. Ensure './assets/maple_leaf.png' exists.`);
             throw e;
         }
 
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
-        const rand = new SeededRandom(CONFIG.seed);
-        
+        const rand = new SeededRandom(config.seed);
         const startPos = new Vector2(0, 0);
         const initialLength = 160; 
         const maxDepth = 8; 
 
-        const fullTree = generateWillowStructure(
+        const tree = generateWillowStructure(
             rand,
             startPos,
             initialLength,
@@ -66,99 +45,37 @@ export class Maple implements Generate {
             0
         );
 
-        const bounds = calculateBounds(fullTree);
-        const treeWidth = bounds.maxX - bounds.minX;
-        const treeHeight = bounds.maxY - bounds.minY;
-        const availW = CONFIG.width - (CONFIG.padding * 2);
-        const availH = CONFIG.height - (CONFIG.padding * 2);
-        const scaleX = availW / treeWidth;
-        const scaleY = availH / treeHeight;
-        const finalScale = Math.min(scaleX, scaleY);
-        
-        const treeCenterX = bounds.minX + (treeWidth / 2);
-        const offsetX = CONFIG.width / 2 - (treeCenterX * finalScale);
-        const offsetY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * finalScale);
-
-        console.log(`   Tree Scale: ${finalScale.toFixed(3)}`);
-
-        if (CONFIG.photoOnly) {
-            const maxDistance = getMaxDist(fullTree);
-            const currentGrowthDist = maxDistance + 500; // Ensure everything is grown
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-            this.renderFrame(ctx, fullTree, foliageImg, currentGrowthDist, finalScale, offsetX, offsetY);
-            
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: offsetX, y: offsetY }
-            };
-        }
-
-        // Generate video
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        console.log(`🎥 Spawning FFmpeg process: ${CONFIG.filename}`);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-
-        if (onStream) {
-            onStream(ffmpeg, ffmpeg.stdout);
+        const layoutBounds = calculateBounds(tree);
+        if (config.season) {
+            applySeason(tree, config.season, seasonRandom(config));
         }
 
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-        const maxDistance = getMaxDist(fullTree);
-        console.log(`   Max Growth Distance: ${maxDistance.toFixed(0)}`);
-        console.log(`   Total Frames: ${totalFrames}`);
-
-        ffmpeg.stderr.on('data', (data) => {
-            // console.error(`FFmpeg stderr: ${data}`);
-        });
-
-        for (let frame = 0; frame < totalFrames; frame++) {
-            if (frame % 30 === 0) console.log(`Frame ${frame}/${totalFrames}`);
-            const t = frame / (totalFrames - 1);
-            const currentGrowthDist = t * (maxDistance + 500);
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-            this.renderFrame(ctx, fullTree, foliageImg, currentGrowthDist, finalScale, offsetX, offsetY);
-
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-        }
-        ffmpeg.stdin.end();
+        return { tree, maxDistance: getMaxDist(tree), foliageImg, layoutBounds, season: config.season };
+    }
 
-        // Wait for FFmpeg to finish encoding
-        await new Promise<void>((resolve, reject) => {
-            ffmpeg.on('close', (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            ffmpeg.on('error', reject);
-        });
+    protected layout(scene: MapleScene, config: Config): Layout {
+        return fitToBounds(scene.layoutBounds, config);
+    }
 
-        return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        };
+    protected measure(scene: MapleScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
     }
 
-    private renderFrame(
-        ctx: CanvasRenderingContext2D, 
-        tree: Branch, 
-        foliageImg: Image, 
-        growthDist: number, 
-        scale: number, 
-        offX: number, 
-        offY: number
-    ) {
+    protected drawFrame(ctx: DrawingContext, scene: MapleScene, layout: Layout, frame: Frame) {
+        const growthDist = frame.t * (scene.maxDistance + 500); // Past maxDistance so the last foliage finishes growing
+
         const branches: SimpleBranch[] = [];
         let entities: ImageEntity[] = [];
 
-        flattenTreeOrganic(tree, branches, entities, growthDist, scale, offX, offY);
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTreeOrganic(tree, branches, entities, growthDist, layout.scale, layout.offsetX, layout.offsetY);
+
+        entities.forEach(e => {
+            if (!e.fall) return;
+            const offset = leafFallOffset(e.fall, frame.t);
+            e.center = new Vector2(e.center.x + offset.x * layout.scale, e.center.y + offset.y * layout.scale);
+            e.rotation += offset.x * 0.05;
+        });
 
         // Sort images so lower ones draw on top (painter's algorithm approximation)
         entities.sort((a, b) => a.center.y - b.center.y);
@@ -175,6 +92,10 @@ export class Maple implements Generate {
             ctx.stroke();
         }
 
+        if (scene.season === 'winter') {
+            drawSnowCaps(ctx, branches, layout.pixelScale);
+        }
+
         for (const e of entities) {
             const prevAlpha = ctx.globalAlpha;
             ctx.globalAlpha = (e.opacity ?? 1);
@@ -187,12 +108,12 @@ export class Maple implements Generate {
             const finalImgScale = e.scale * appearanceScale;
             ctx.scale(finalImgScale, finalImgScale);
 
-            const imgW = foliageImg.width;
-            const imgH = foliageImg.height;
+            const imgW = scene.foliageImg.width;
+            const imgH = scene.foliageImg.height;
             
             // Attachment point is slightly above bottom center
             const stemOffset = imgH * 0.15; 
-            ctx.drawImage(foliageImg, -imgW / 2, -imgH + stemOffset, imgW, imgH);
+            ctx.drawImage(scene.foliageImg, -imgW / 2, -imgH + stemOffset, imgW, imgH);
 
             ctx.restore();
             ctx.globalAlpha = prevAlpha;
@@ -209,6 +130,7 @@ interface ImageEntity {
     scale: number;
     distFromRoot: number;
     opacity?: number;
+    fall?: LeafFall; // Autumn leaves that drop once grown
 }
 
 class Branch {
@@ -225,7 +147,6 @@ class SimpleBranch {
     constructor(public start: Vector2, public end: Vector2, public strokeWidth: number, public control: Vector2) { }
 }
 
-interface Bounds { minX: number; maxX: number; minY: number; maxY: number; }
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 function smoothStep(t: number): number { return t * t * (3 - 2 * t); }
 
@@ -296,6 +217,23 @@ function generateWillowStructure(
 }
 
 
+// Seasonal changes on top of the generated tree; the branches stay the same
+function applySeason(b: Branch, season: Season, rand: SeededRandom) {
+    if (season === 'winter') {
+        b.entities = [];
+    } else if (season === 'autumn') {
+        // Maple foliage is already autumn coloured; let more of it go
+        b.entities.forEach(e => e.fall = planLeafFall(rand, e.center.y, 0, 0.3));
+    }
+    b.children.forEach(child => applySeason(child, season, rand));
+}
+
+function finalCenter(e: ImageEntity): Vector2 {
+    if (!e.fall) return e.center;
+    const offset = leafFallOffset(e.fall, 1);
+    return new Vector2(e.center.x + offset.x, e.center.y + offset.y);
+}
+
 function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }): Bounds {
     currentBounds.minX = Math.min(currentBounds.minX, b.start.x, b.end.x, b.control.x);
     currentBounds.maxX = Math.max(currentBounds.maxX, b.start.x, b.end.x, b.control.x);
@@ -305,15 +243,23 @@ function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, ma
     // Estimate image bounds (assuming roughly 100px size for calculation safety)
     const safetyMargin = 60;
     b.entities.forEach(e => {
-        currentBounds.minX = Math.min(currentBounds.minX, e.center.x - safetyMargin);
-        currentBounds.maxX = Math.max(currentBounds.maxX, e.center.x + safetyMargin);
-        currentBounds.minY = Math.min(currentBounds.minY, e.center.y - safetyMargin);
-        currentBounds.maxY = Math.max(currentBounds.maxY, e.center.y + safetyMargin);
+        const center = finalCenter(e);
+        currentBounds.minX = Math.min(currentBounds.minX, center.x - safetyMargin);
+        currentBounds.maxX = Math.max(currentBounds.maxX, center.x + safetyMargin);
+        currentBounds.minY = Math.min(currentBounds.minY, center.y - safetyMargin);
+        currentBounds.maxY = Math.max(currentBounds.maxY, center.y + safetyMargin);
     });
     b.children.forEach(child => calculateBounds(child, currentBounds));
     return currentBounds;
 }
 
+// Foliage images still on the tree, using the same safety margin as calculateBounds
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.filter(e => !e.fall).forEach(e => includeBox(bounds, e.center.x, e.center.y, 60));
+    b.children.forEach(child => calculateCanopyBounds(child, bounds));
+    return bounds;
+}
+
 function getMaxDist(b: Branch): number {
     let max = b.distFromRoot + b.length;
     b.entities.forEach(e => max = Math.max(max, e.distFromRoot));
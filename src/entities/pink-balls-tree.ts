@@ -1,14 +1,11 @@
-import { createCanvas, CanvasRenderingContext2D, loadImage, Image } from 'canvas';
-import { spawn } from 'child_process';
-import { createHash, randomBytes } from 'crypto';
-import * as fs from 'fs';
+import { loadImage, Image } from 'canvas';
 import { SeededRandom } from '../core/seeded-random';
-import type { Generate } from '../models/generate';
-import type { Context } from 'baojs';
-import type { ChildProcessWithoutNullStreams } from 'node:child_process';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { GeneratorResult } from '../types/generator-result';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import type { DrawingContext } from '../models/drawing-context';
 
 class Vector2 {
     constructor(public x: number, public y: number) { }
@@ -53,10 +50,6 @@ class SimpleBranch {
     ) { }
 }
 
-interface Bounds {
-    minX: number; maxX: number; minY: number; maxY: number;
-}
-
 
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 
@@ -69,262 +62,103 @@ function smoothStep(t: number): number {
     return t * t * (3 - 2 * t);
 }
 
-export class PinkBallsTree implements Generate {
-    async generate(con: Context, onStream?: (process: ChildProcessWithoutNullStreams, videoStream: ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-
-        console.log("🌱 Initializing Perfect-Fit Bonsai Generator...");
+interface PinkBallsScene {
+    tree: Branch;
+    maxDistance: number;
+    teddyImg: Image;
+}
 
+export class PinkBallsTree extends SceneGenerator<PinkBallsScene> {
+    protected async buildScene(config: Config): Promise<PinkBallsScene> {
         const teddyImg = await loadImage('./assets/pink_teddy.png');
 
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
+        const rand = new SeededRandom(config.seed);
 
-        const rand = new SeededRandom(CONFIG.seed);
-
-        // Generate logical tree roughly centered at 0,0 first, then shift
-        // We use a dummy start position, we will move it later
+        // Generate logical tree roughly centered at 0,0; the pipeline fits it to the canvas
         const startPos = new Vector2(0, 0);
         const initialLength = 200; // Arbitrary unit, will be scaled
-
-        console.log("🌳 Building logical tree structure...");
         const maxDepth = 7;
 
         // Note: Growing UP (-90 degrees)
-        const fullTree = generateFullTree(
-            rand,
-            startPos,
-            initialLength,
-            -90,
-            maxDepth,
-            0
-        );
-
-        console.log("📐 Calculating bounds and scale...");
-        const bounds = calculateBounds(fullTree);
-        const treeWidth = bounds.maxX - bounds.minX;
-        const treeHeight = bounds.maxY - bounds.minY;
-
-        // Available space
-        const availW = CONFIG.width - (CONFIG.padding * 2);
-        const availH = CONFIG.height - (CONFIG.padding * 2);
-
-        // Scale to fit (maintain aspect ratio)
-        const scaleX = availW / treeWidth;
-        const scaleY = availH / treeHeight;
-        const finalScale = Math.min(scaleX, scaleY);
-
-        // Calculate offsets to center the tree
-        // We want the bounding box center to align with canvas center
-        // However, for a tree, it usually looks best if the "root" is at the bottom-center
-        // But since we want it "perfectly in frame", let's center the bounding box vertically too, 
-        // or align bottom. Let's align bottom of tree to bottom margin.
-
-        const treeCenterX = bounds.minX + (treeWidth / 2);
-        const targetCenterX = CONFIG.width / 2;
-        const offsetX = targetCenterX - (treeCenterX * finalScale);
-
-        // Align bottom: bounds.maxY should be at CONFIG.height - padding
-        // Note: Canvas Y goes down. -90 deg means Y decreases. 
-        // bounds.maxY is likely the root (0), bounds.minY is the top leaves.
-        const offsetY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * finalScale);
-
-
-        const maxDistance = getMaxDist(fullTree);
-
-        if (CONFIG.photoOnly) {
-            console.log("📸 Generating final tree image only (video creation skipped).");
-
-            // Set growth to maximum to draw the final state
-            const currentGrowthDist = maxDistance + 700;
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const branches: SimpleBranch[] = [];
-            let entities: Entity[] = [];
-
-            flattenTreeOrganic(fullTree, branches, entities, currentGrowthDist, finalScale, offsetX, offsetY);
-
-
-            const leaves = entities.filter(e => e.type === 'leaf');
-            const fruits = entities.filter(e => e.type === 'fruit');
-            leaves.sort((a, b) => a.center.y - b.center.y);
-            fruits.sort((a, b) => a.center.y - b.center.y);
-            entities = leaves.concat(fruits);
-
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
+        const tree = generateFullTree(rand, startPos, initialLength, -90, maxDepth, 0);
+        return { tree, maxDistance: getMaxDist(tree), teddyImg };
+    }
 
-            ctx.strokeStyle = '#3E2723';
-            for (const b of branches) {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth * 0.2;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            }
-            ctx.strokeStyle = '#6D4C41';
-            for (const b of branches) {
-                if (b.strokeWidth < 1) continue;
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth * 0.5;
-                const off = -1;
-                ctx.moveTo(b.start.x + off, b.start.y + off);
-                ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
-                ctx.stroke();
-            }
+    protected layout(scene: PinkBallsScene, config: Config): Layout {
+        return fitToBounds(calculateBounds(scene.tree), config);
+    }
 
-            for (const e of entities) {
-                const prevAlpha = ctx.globalAlpha;
-                ctx.globalAlpha = (e.opacity ?? 1);
-
-                if (e.type === 'fruit') {
-                    // Draw Teddy
-                    const size = e.radius * 2.5;
-                    ctx.drawImage(teddyImg, e.center.x - size / 2, e.center.y - size / 2, size, size);
-                } else {
-                    ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                    ctx.beginPath();
-                    ctx.arc(e.center.x + 2, e.center.y + 5, e.radius, 0, Math.PI * 2);
-                    ctx.fill();
-                    const g = ctx.createRadialGradient(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.1, e.center.x, e.center.y, e.radius);
-                    g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
-                    g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
-                    ctx.beginPath();
-                    ctx.fillStyle = g;
-                    ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
-                    ctx.fill();
-                }
-                ctx.globalAlpha = prevAlpha;
-            }
+    protected measure(scene: PinkBallsScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
+    }
 
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-            return {
-                imageBuffer: finalBuffer,
-                trunkStartPosition: { x: offsetX, y: offsetY }
-            }
+    protected drawFrame(ctx: DrawingContext, scene: PinkBallsScene, layout: Layout, frame: Frame) {
+        // We grow past maxDistance to ensure fruits have time to grow
+        const currentGrowthDist = frame.t * (scene.maxDistance + 700);
+
+        const branches: SimpleBranch[] = [];
+        let entities: Entity[] = [];
+
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTreeOrganic(tree, branches, entities, currentGrowthDist, layout.scale, layout.offsetX, layout.offsetY);
+
+        // Sort all entities back-to-front (top/back first), fruits drawn last so they appear on top
+        const leaves = entities.filter(e => e.type === 'leaf');
+        const fruits = entities.filter(e => e.type === 'fruit');
+        leaves.sort((a, b) => a.center.y - b.center.y);
+        fruits.sort((a, b) => a.center.y - b.center.y);
+        entities = leaves.concat(fruits);
+
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+
+        // DRAW TREE TRUNK
+        ctx.strokeStyle = '#3E2723';
+        for (const b of branches) {
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth * 0.2;
+            ctx.moveTo(b.start.x, b.start.y);
+            ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
+            ctx.stroke();
         }
-
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        console.log(`🎥 Spawning FFmpeg process: ${CONFIG.filename}`);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-        if (onStream) {
-            onStream(ffmpeg, ffmpeg.stdout);
+        ctx.strokeStyle = '#6D4C41';
+        for (const b of branches) {
+            if (b.strokeWidth < layout.pixelScale) continue;
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth * 0.5;
+            const off = -layout.pixelScale;
+            ctx.moveTo(b.start.x + off, b.start.y + off);
+            ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
+            ctx.stroke();
         }
 
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-
-        for (let frame = 0; frame < totalFrames; frame++) {
-            const t = frame / (totalFrames - 1);
-
-            // Organic Growth: Distance based
-            // We grow past maxDistance to ensure fruits have time to grow (they have a 500-unit delay)
-            const currentGrowthDist = t * (maxDistance + 700);
-
-            // Clear Rect for TRANSPARENT background
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
+        // DRAW LEAVES & FRUITS
+        for (const e of entities) {
+            const prevAlpha = ctx.globalAlpha;
+            ctx.globalAlpha = (e.opacity ?? 1);
 
-            const branches: SimpleBranch[] = [];
-            let entities: Entity[] = [];
-
-            flattenTreeOrganic(fullTree, branches, entities, currentGrowthDist, finalScale, offsetX, offsetY);
-
-            // Separate leaves & fruits for rendering order
-            const leaves = entities.filter(e => e.type === 'leaf');
-            const fruits = entities.filter(e => e.type === 'fruit');
-
-            // Sort all entities back-to-front (top/back first), fruits drawn last so they appear on top
-            leaves.sort((a, b) => a.center.y - b.center.y);
-            fruits.sort((a, b) => a.center.y - b.center.y);
-            entities = leaves.concat(fruits);
-
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-
-            // DRAW TREE TRUNK
-            ctx.strokeStyle = '#3E2723';
-            for (const b of branches) {
+            if (e.type === 'fruit') {
+                // Draw Teddy
+                const size = e.radius * 2.5;
+                ctx.drawImage(scene.teddyImg, e.center.x - size / 2, e.center.y - size / 2, size, size);
+            } else {
+                ctx.fillStyle = 'rgba(0,0,0,0.1)';
                 ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            }
-            
-
-            // DRAW LEAVES & FRUITS
-            for (const e of entities) {
-                // Use per-entity opacity (fade-in) and restore after drawing
-                const prevAlpha = ctx.globalAlpha;
-                ctx.globalAlpha = (e.opacity ?? 1);
-
-                if (e.type === 'fruit') {
-                    // Draw Teddy
-                    const size = e.radius * 2.5;
-                    ctx.drawImage(teddyImg, e.center.x - size / 2, e.center.y - size / 2, size, size);
-                } else {
-                    // Shadow (will be affected by globalAlpha so it fades with the entity)
-                    ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                    ctx.beginPath();
-                    ctx.arc(e.center.x + 2, e.center.y + 5, e.radius, 0, Math.PI * 2);
-                    ctx.fill();
-
-                    // Main Gradient
-                    const g = ctx.createRadialGradient(
-                        e.center.x - e.radius * 0.3,
-                        e.center.y - e.radius * 0.3,
-                        e.radius * 0.1,
-                        e.center.x,
-                        e.center.y,
-                        e.radius
-                    );
-
-                    // We rely on globalAlpha for fade; color stops are fully opaque
-                    g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
-                    g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
-
-                    ctx.beginPath();
-                    ctx.fillStyle = g;
-                    ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
-                    ctx.fill();
-                }
-
-                ctx.globalAlpha = prevAlpha;
+                ctx.arc(e.center.x + 2 * layout.pixelScale, e.center.y + 5 * layout.pixelScale, e.radius, 0, Math.PI * 2);
+                ctx.fill();
+                const g = ctx.createRadialGradient(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.1, e.center.x, e.center.y, e.radius);
+                g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
+                g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
+                ctx.beginPath();
+                ctx.fillStyle = g;
+                ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
+                ctx.fill();
             }
-
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-            // if (frame % 30 === 0) {
-            //     const pct = Math.round((frame / totalFrames) * 100);
-            //     process.stdout.write(`\rProgress: ${pct}%`);
-            // }
+            ctx.globalAlpha = prevAlpha;
         }
-        ffmpeg.stdin.end();
-
-        // Wait for FFmpeg to finish encoding
-        await new Promise<void>((resolve, reject) => {
-            ffmpeg.on('close', (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            ffmpeg.on('error', reject);
-        });
-
-        return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        };
     }
-
-
-    getInfo(Config?: Config): Promise<GeneratorResult> {
-        throw new Error('Method not implemented.');
-    }
-
 }
+
 function generateFullTree(
     rand: SeededRandom,
     start: Vector2,
@@ -471,6 +305,13 @@ function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, ma
     return currentBounds;
 }
 
+// Leaves and fruits only
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.forEach(e => includeBox(bounds, e.center.x, e.center.y, e.radius));
+    b.children.forEach(child => calculateCanopyBounds(child, bounds));
+    return bounds;
+}
+
 // Find the maximum path length in the tree for animation timing
 function getMaxDist(b: Branch): number {
     let max = b.distFromRoot + b.length;
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { createCanvas, loadImage } from 'canvas';
+import { entities } from '../entities';
+import { progressToFrame, SceneGenerator } from '../core/renderer';
+import { diffImages } from '../core/image-diff';
+import { atlasProgress } from '../core/sprite-sheet';
+import { latestVersion } from '../core/versions';
+import { DEFAULT_CONFIG, type Config } from '../types/config';
+
+const FRAMES = 5;
+
+function configFor(type: string): Config {
+    return {
+        ...DEFAULT_CONFIG,
+        seed: 'progress',
+        version: latestVersion(entities.get(type)!.generate),
+        // Short and slow, so the check stays quick; sakura still drops petals from 40% on
+        durationSeconds: 2,
+        fps: 10,
+        photoOnly: true,
+        save_as_file: false
+    };
+}
+
+async function pixels(source: Buffer, x: number = 0, y: number = 0): Promise<Uint8ClampedArray> {
+    const image = await loadImage(source);
+    const canvas = createCanvas(DEFAULT_CONFIG.width, DEFAULT_CONFIG.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, -x, -y);
+    return ctx.getImageData(0, 0, DEFAULT_CONFIG.width, DEFAULT_CONFIG.height).data;
+}
+
+const drawnEntities = [...entities].filter(([, entity]) => entity.generate instanceof SceneGenerator).map(([type]) => type);
+
+// Atlas cells are rendered as video frames, so they stand in for decoding the video
+describe('growth progress stills', () => {
+    for (const type of drawnEntities) {
+        test(`${type} stills match the video frame at the same progress`, async () => {
+            const config = configFor(type);
+            const frameCount = config.durationSeconds * config.fps;
+            const { imageBuffer: sheet, atlas } = await entities.get(type)!.generate.generate(null as any, undefined, { ...config, atlasFrames: FRAMES });
+
+            for (const [i, progress] of atlasProgress(FRAMES).entries()) {
+                const cell = atlas!.frames[i]!;
+                expect(cell.progress).toBe(progressToFrame(progress, frameCount) / (frameCount - 1));
+
+                const still = await entities.get(type)!.generate.generate(null as any, undefined, { ...config, progress });
+                const { mismatched } = diffImages(await pixels(sheet!, cell.frame.x, cell.frame.y), await pixels(still.imageBuffer!), 0);
+                expect(mismatched).toBe(0);
+            }
+        });
+    }
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { createCanvas, loadImage } from 'canvas';
+import { entities } from '../entities';
+import { REFERENCE_SIZE, SceneGenerator } from '../core/renderer';
+import { DEFAULT_CONFIG } from '../types/config';
+
+const SEED = 'resolution';
+const HIGH_RES = REFERENCE_SIZE * 2;
+// Mean per-channel difference, 0..1; resampling alone stays well below this, a shifted shadow or unscaled padding does not
+const MAX_DIFFERENCE = 0.015;
+
+/** Renders at `size` and resamples the result to the reference size. */
+async function renderAt(type: string, size: number): Promise<Uint8ClampedArray> {
+    const result = await entities.get(type)!.generate.generate(null as any, undefined, {
+        ...DEFAULT_CONFIG,
+        seed: SEED,
+        width: size,
+        height: size,
+        photoOnly: true,
+        save_as_file: false
+    });
+    const image = await loadImage(result.imageBuffer!);
+    const canvas = createCanvas(REFERENCE_SIZE, REFERENCE_SIZE);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, 0, 0, REFERENCE_SIZE, REFERENCE_SIZE);
+    return ctx.getImageData(0, 0, REFERENCE_SIZE, REFERENCE_SIZE).data;
+}
+
+const drawnEntities = [...entities].filter(([, entity]) => entity.generate instanceof SceneGenerator).map(([type]) => type);
+
+describe('resolution independence', () => {
+    for (const type of drawnEntities) {
+        test(`${type} rendered at 2x and downscaled matches the native render`, async () => {
+            const native = await renderAt(type, REFERENCE_SIZE);
+            const downscaled = await renderAt(type, HIGH_RES);
+
+            let difference = 0;
+            for (let i = 0; i < native.length; i++) {
+                difference += Math.abs(native[i]! - downscaled[i]!);
+            }
+            expect(difference / native.length / 255).toBeLessThan(MAX_DIFFERENCE);
+        });
+    }
+});
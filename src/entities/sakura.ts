@@ -1,14 +1,12 @@
-import { createCanvas, CanvasRenderingContext2D } from 'canvas';
-import { spawn, type ChildProcess } from 'child_process';
-import { createHash, randomBytes } from 'crypto';
-import * as fs from 'fs';
 import { SeededRandom } from '../core/seeded-random';
-import type { Generate } from '../models/generate';
-import type { Context } from 'baojs';
-import type { ChildProcessWithoutNullStreams } from 'node:child_process';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { GeneratorResult } from '../types/generator-result';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, pixelScale, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import { drawSnowCaps, seasonRandom } from '../core/seasons';
+import type { Season } from '../types/season';
+import type { DrawingContext } from '../models/drawing-context';
 
 
 class Vector2 {
@@ -47,7 +45,7 @@ class Branch {
 }
 
 
-function drawPetalShape(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, rotation: number) {
+function drawPetalShape(ctx: DrawingContext, x: number, y: number, size: number, rotation: number) {
     ctx.save();
     ctx.translate(x, y);
     ctx.rotate(rotation);
@@ -121,202 +119,210 @@ function generateSakura(
     return new Branch(start, end, control, (depth * 2.5 + 1) * scale, dist, length, children, entities);
 }
 
-export class Sakura implements Generate {
-    async generate(con: Context, onStream?: (process: ChildProcessWithoutNullStreams, videoStream: ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
-        const rand = new SeededRandom(CONFIG.seed);
-
-        // Resolution independence
-        const scale = Math.min(CONFIG.width, CONFIG.height) / 1080;
-        const startY = CONFIG.height - (100 * scale);
-        const initialLength = 180 * scale;
-
-        // Position root at bottom center
-        const tree = generateSakura(rand, new Vector2(CONFIG.width / 2, startY), initialLength, -90, 7, 0, { width: CONFIG.width, height: CONFIG.height }, scale);
-
-        const fallingPetals: Petal[] = [];
-        const totalFrames = CONFIG.fps * CONFIG.durationSeconds;
-        const maxDist = 1500 * scale; // Estimated max growth distance
-
-        if(CONFIG.photoOnly){
-            const currentGrowthDist = maxDist * 1.2; // Set to final growth state
-
-            for (let f = 0; f < totalFrames; f++) {
-                const t = f / totalFrames;
-                
-                // --- SAKURA SNOW SYSTEM ---x
-                if (t > 0.4 && f % 5 === 0) { // Start dropping petals midway
-                    const centerX = CONFIG.width / 2;
-                    const centerY = CONFIG.height / 2;
-                    const range = CONFIG.width * 0.2; // 20% of canvas width
-                    fallingPetals.push({
-                        x: rand.nextFloat(centerX - range, centerX + range),
-                        y: rand.nextFloat(centerY - range, centerY + range),
-                        size: rand.nextFloat(3 * scale, 12 * scale),
-                        rotation: rand.nextFloat(0, Math.PI * 2),
-                        velocity: new Vector2(rand.nextFloat(-1 * scale, 1 * scale), rand.nextFloat(1 * scale, 3 * scale)),
-                        active: true,
-                         color: 'rgba(255, 209, 220, 0.5)'
-                        
-                    });
-                }
-
-                fallingPetals.forEach(p => {
-                    if (!p.active) return;
-                    p.x += p.velocity.x + Math.sin(f * 0.05) * 0.5; // Swaying motion
-                    p.y += p.velocity.y;
-                    p.rotation += 0.02;
-                    if (p.y > CONFIG.height) p.active = false;
-                });
-            }
+interface SakuraScene {
+    tree: Branch;
+    rand: SeededRandom;
+    /** Resolution scale relative to a 1080px canvas */
+    scale: number;
+    pixelScale: number;
+    maxDist: number;
+    width: number;
+    height: number;
+    fallingPetals: Petal[];
+    /** Number of frames the petal simulation has advanced through */
+    simulatedFrames: number;
+    season?: Season;
+    version?: number;
+}
 
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const renderBranch = (b: Branch) => {
-                if (currentGrowthDist < b.distFromRoot) return;
-                const progress = Math.min(1, (currentGrowthDist - b.distFromRoot) / b.length);
-
-                ctx.strokeStyle = '#3e2723';
-                ctx.lineWidth = b.strokeWidth;
-                ctx.lineCap = 'round';
-                ctx.beginPath();
-                ctx.moveTo(b.start.x, b.start.y);
-                const cpX = b.start.x + (b.control.x - b.start.x) * progress;
-                const cpY = b.start.y + (b.control.y - b.start.y) * progress;
-                const eX = b.start.x + (b.end.x - b.start.x) * progress;
-                const eY = b.start.y + (b.end.y - b.start.y) * progress;
-                ctx.quadraticCurveTo(cpX, cpY, eX, eY);
-                ctx.stroke();
-
-                if (progress > 0.8) {
-                    b.entities.forEach(e => {
-                        if (currentGrowthDist > e.distFromRoot + 50 * scale) {
-                            ctx.fillStyle = e.color;
-                            drawPetalShape(ctx, e.center.x, e.center.y, e.radius, e.rotation);
-                        }
-                    });
-                }
-                b.children.forEach(renderBranch);
-            };
-
-            renderBranch(tree);
-
-            fallingPetals.forEach(p => {
-                if (!p.active) return;
-                ctx.fillStyle = p.color;
-                drawPetalShape(ctx, p.x, p.y, p.size, p.rotation);
+// Blossoms kept per generated blossom; above 1 adds extra blossoms around existing ones
+const BLOSSOM_DENSITY: Record<Season, number> = {
+    spring: 1.6,
+    summer: 1,
+    autumn: 0.4,
+    winter: 0,
+};
+
+function applyBlossomDensity(b: Branch, density: number, rand: SeededRandom, scale: number) {
+    if (density < 1) {
+        b.entities = b.entities.filter(() => rand.next() < density);
+    } else {
+        const extra: Entity[] = [];
+        b.entities.forEach(e => {
+            if (rand.next() >= density - 1) return;
+            extra.push({
+                ...e,
+                center: new Vector2(e.center.x + rand.nextFloat(-12 * scale, 12 * scale), e.center.y + rand.nextFloat(-12 * scale, 12 * scale)),
+                radius: e.radius * rand.nextFloat(0.8, 1.1),
+                rotation: rand.nextFloat(0, Math.PI * 2)
             });
+        });
+        b.entities.push(...extra);
+    }
+    b.children.forEach(c => applyBlossomDensity(c, density, rand, scale));
+}
 
-            const buffer = canvas.toBuffer('image/png');
-            if(CONFIG.save_as_file){
-                fs.writeFileSync(CONFIG.imageFilename, buffer);
-            }
-           return {
-                imageBuffer: buffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: CONFIG.width / 2, y: CONFIG.height - (100 * scale) }
-            };
+/**
+ * Advances the falling petal simulation up to and including `frame`.
+ * Petals consume the shared RNG, so frames must be simulated in order.
+ */
+function simulatePetals(scene: SakuraScene, frame: Frame) {
+    const { rand, scale, width, height, fallingPetals } = scene;
+    const sway = 0.5 * scene.pixelScale;
+    // v1 fully grown stills have their own petal size and colour; keep them byte-identical.
+    // Every other still matches the video frame at the same progress.
+    const legacyStill = frame.still && frame.t === 1 && scene.version === 1;
+    const maxSize = legacyStill ? 12 : 8;
+    const color = legacyStill ? 'rgba(255, 209, 220, 0.5)' : 'rgba(255, 209, 220, 0.8)';
+    for (let f = scene.simulatedFrames; f <= frame.index; f++) {
+        const t = f / frame.count;
+        if (t > 0.4 && f % 5 === 0 && scene.season !== 'winter') { // Start dropping petals midway
+            const centerX = width / 2;
+            const centerY = height / 2;
+            const rangeX = width * 0.2; // 20% of canvas width
+            const rangeY = width * 0.2; // 10% of canvas width
+            fallingPetals.push({
+                x: rand.nextFloat(centerX - rangeX, centerX + rangeX),
+                y: rand.nextFloat(centerY - rangeY, centerY + rangeY),
+                size: rand.nextFloat(3 * scale, maxSize * scale),
+                rotation: rand.nextFloat(0, Math.PI * 2),
+                velocity: new Vector2(rand.nextFloat(-1 * scale, 1 * scale), rand.nextFloat(1 * scale, 3 * scale)),
+                active: true,
+                color
+            });
         }
 
+        fallingPetals.forEach(p => {
+            if (!p.active) return;
+            p.x += p.velocity.x + Math.sin(f * 0.05) * sway; // Swaying motion
+            p.y += p.velocity.y;
+            p.rotation += 0.02;
+            if (p.y > height) p.active = false;
+        });
+    }
+    scene.simulatedFrames = Math.max(scene.simulatedFrames, frame.index + 1);
+}
 
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        const ffmpeg = CONFIG.photoOnly ? null : spawn('ffmpeg', ffmpegArgs);
-
-        if(onStream && ffmpeg) onStream(ffmpeg, ffmpeg.stdout);
-
-        for (let f = 0; f < totalFrames; f++) {
-            const t = f / totalFrames;
-            const currentGrowthDist = t * maxDist * 1.2;
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-            const renderBranch = (b: Branch) => {
-                if (currentGrowthDist < b.distFromRoot) return;
-
-                const progress = Math.min(1, (currentGrowthDist - b.distFromRoot) / b.length);
-
-                // Draw Branch
-                ctx.strokeStyle = '#3e2723'; // Dark cherry bark
-                ctx.lineWidth = b.strokeWidth;
-                ctx.lineCap = 'round';
-                ctx.beginPath();
-                ctx.moveTo(b.start.x, b.start.y);
-                // Simple quad curve for growth
-                const cpX = b.start.x + (b.control.x - b.start.x) * progress;
-                const cpY = b.start.y + (b.control.y - b.start.y) * progress;
-                const eX = b.start.x + (b.end.x - b.start.x) * progress;
-                const eY = b.start.y + (b.end.y - b.start.y) * progress;
-                ctx.quadraticCurveTo(cpX, cpY, eX, eY);
-                ctx.stroke();
-
-                // Draw Blossoms
-                if (progress > 0.8) {
-                    b.entities.forEach(e => {
-                        if (currentGrowthDist > e.distFromRoot + 50 * scale) {
-                            ctx.fillStyle = e.color;
-                            drawPetalShape(ctx, e.center.x, e.center.y, e.radius, e.rotation);
-                        }
-                    });
-                }
-                b.children.forEach(renderBranch);
-            };
-
-            renderBranch(tree);
-
-            if (t > 0.4 && f % 5 === 0) { // Start dropping petals midway
-                const centerX = CONFIG.width / 2;
-                const centerY = CONFIG.height / 2;
-                const rangeX = CONFIG.width * 0.2; // 20% of canvas width
-                const rangeY = CONFIG.width * 0.2; // 10% of canvas width
-                fallingPetals.push({
-                    x: rand.nextFloat(centerX - rangeX, centerX + rangeX),
-                    y: rand.nextFloat(centerY - rangeY, centerY + rangeY),
-                    size: rand.nextFloat(3 * scale, 8 * scale),
-                    rotation: rand.nextFloat(0, Math.PI * 2),
-                    velocity: new Vector2(rand.nextFloat(-1 * scale, 1 * scale), rand.nextFloat(1 * scale, 3 * scale)),
-                    active: true,
-                    color: 'rgba(255, 209, 220, 0.8)'
-                });
-            }
+// Petal shapes reach about 1.5x their radius from their anchor
+function includeBlossoms(b: Branch, bounds: Bounds) {
+    b.entities.forEach(e => includeBox(bounds, e.center.x, e.center.y, e.radius * 1.5));
+}
 
-            fallingPetals.forEach(p => {
-                if (!p.active) return;
-                p.x += p.velocity.x + Math.sin(f * 0.05) * 0.5; // Swaying motion
-                p.y += p.velocity.y;
-                p.rotation += 0.02;
-                ctx.fillStyle = p.color;
-                drawPetalShape(ctx, p.x, p.y, p.size, p.rotation);
-                if (p.y > CONFIG.height) p.active = false;
-            });
+function calculateBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    [b.start, b.end, b.control].forEach(p => includeBox(bounds, p.x, p.y, b.strokeWidth / 2));
+    includeBlossoms(b, bounds);
+    b.children.forEach(c => calculateBounds(c, bounds));
+    return bounds;
+}
 
-            if (ffmpeg) {
-                const buffer = canvas.toBuffer('image/png');
-                const ok = ffmpeg.stdin.write(buffer);
-                if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-            }
+function calculateBlossomBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    includeBlossoms(b, bounds);
+    b.children.forEach(c => calculateBlossomBounds(c, bounds));
+    return bounds;
+}
 
-            if (f % 30 === 0) console.log(`Rendering: ${Math.round(t * 100)}%`);
-        }
-        if(ffmpeg){
-            ffmpeg.stdin.end();
-
-            // Wait for FFmpeg to finish encoding
-            await new Promise<void>((resolve, reject) => {
-                (ffmpeg as any).on('close', (code: number | null) => {
-                    if (code === 0) resolve();
-                    else reject(new Error(`FFmpeg exited with code ${code}`));
-                });
-                (ffmpeg as any).on('error', reject);
-            });
+export class Sakura extends SceneGenerator<SakuraScene> {
+    // v2: fully grown stills show the last video frame's petals
+    readonly versions = [1, 2];
+    readonly seasonalGeometry = true;
+
+    protected async buildScene(config: Config): Promise<SakuraScene> {
+        const rand = new SeededRandom(config.seed);
+
+        // Resolution independence
+        const scale = Math.min(config.width, config.height) / 1080;
+        const startY = config.height - (100 * scale);
+        const initialLength = 180 * scale;
+
+        // Position root at bottom center
+        const tree = generateSakura(rand, new Vector2(config.width / 2, startY), initialLength, -90, 7, 0, { width: config.width, height: config.height }, scale);
+        if (config.season) {
+            applyBlossomDensity(tree, BLOSSOM_DENSITY[config.season], seasonRandom(config), scale);
         }
-    
+
         return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: CONFIG.width / 2, y: CONFIG.height - (100 * scale) }
+            tree,
+            rand,
+            scale,
+            pixelScale: pixelScale(config),
+            maxDist: 1500 * scale, // Estimated max growth distance
+            width: config.width,
+            height: config.height,
+            fallingPetals: [],
+            simulatedFrames: 0,
+            season: config.season,
+            version: config.version
         };
     }
-    getInfo(Config?: Config): Promise<GeneratorResult> {
-        throw new Error('Method not implemented.');
+
+    protected layout(scene: SakuraScene, config: Config): Layout {
+        // The tree is generated directly in canvas space
+        return {
+            scale: 1,
+            offsetX: 0,
+            offsetY: 0,
+            trunkStartPosition: { x: config.width / 2, y: config.height - (100 * scene.scale) },
+            pixelScale: scene.pixelScale
+        };
     }
 
+    protected measure(scene: SakuraScene): SceneBounds {
+        // Falling petals drift over the whole canvas and are not part of the tree
+        return { bounds: calculateBounds(scene.tree), canopy: calculateBlossomBounds(scene.tree) };
+    }
+
+    protected drawFrame(ctx: DrawingContext, scene: SakuraScene, layout: Layout, frame: Frame) {
+        const { scale } = scene;
+        const currentGrowthDist = frame.t * scene.maxDist * 1.2;
+
+        // Petals only fall while growing; they would pop when an idle loop restarts
+        if (!frame.wind) {
+            simulatePetals(scene, frame);
+        }
+        const drawnBranches: { start: Vector2; end: Vector2; control: Vector2; strokeWidth: number }[] = [];
+
+        const renderBranch = (b: Branch) => {
+            if (currentGrowthDist < b.distFromRoot) return;
+
+            const progress = Math.min(1, (currentGrowthDist - b.distFromRoot) / b.length);
+
+            // Draw Branch
+            ctx.strokeStyle = '#3e2723'; // Dark cherry bark
+            ctx.lineWidth = b.strokeWidth;
+            ctx.lineCap = 'round';
+            ctx.beginPath();
+            ctx.moveTo(b.start.x, b.start.y);
+            // Simple quad curve for growth
+            const cpX = b.start.x + (b.control.x - b.start.x) * progress;
+            const cpY = b.start.y + (b.control.y - b.start.y) * progress;
+            const eX = b.start.x + (b.end.x - b.start.x) * progress;
+            const eY = b.start.y + (b.end.y - b.start.y) * progress;
+            ctx.quadraticCurveTo(cpX, cpY, eX, eY);
+            ctx.stroke();
+            drawnBranches.push({ start: b.start, control: new Vector2(cpX, cpY), end: new Vector2(eX, eY), strokeWidth: b.strokeWidth });
+
+            // Draw Blossoms
+            if (progress > 0.8) {
+                b.entities.forEach(e => {
+                    if (currentGrowthDist > e.distFromRoot + 50 * scale) {
+                        ctx.fillStyle = e.color;
+                        drawPetalShape(ctx, e.center.x, e.center.y, e.radius, e.rotation);
+                    }
+                });
+            }
+            b.children.forEach(renderBranch);
+        };
+
+        renderBranch(frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree);
+
+        if (scene.season === 'winter') {
+            drawSnowCaps(ctx, drawnBranches, layout.pixelScale);
+        }
+
+        scene.fallingPetals.forEach(p => {
+            if (!p.active) return;
+            ctx.fillStyle = p.color;
+            drawPetalShape(ctx, p.x, p.y, p.size, p.rotation);
+        });
+    }
 }
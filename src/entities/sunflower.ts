@@ -1,96 +1,68 @@
-import { createCanvas, CanvasRenderingContext2D, Image, loadImage, Canvas } from 'canvas';
-import { spawn } from 'child_process';
-import * as fs from 'fs';
-import { SeededRandom } from '../core/seeded-random';
-import type { Generate } from '../models/generate';
-import { Context } from 'baojs';
-import type { ChildProcessWithoutNullStreams } from 'node:child_process';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { GeneratorResult } from '../types/generator-result';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
+import { Image, loadImage } from 'canvas';
+import { sceneRandom } from '../core/seeded-random';
+import type { Config } from '../types/config';
+import type { Layout } from '../types/layout';
+import { SceneGenerator, pixelScale, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import type { WindFrame } from '../core/wind';
+import type { DrawingContext } from '../models/drawing-context';
 
 interface SunflowerInstance {
-    seed: string;
-    rng: SeededRandom;
     x: number; 
     scale: number; 
     swayOffset: number; 
 }
 
-export class Sunflower implements Generate {
-    async generate(con: Context, onStream?: (process: ChildProcessWithoutNullStreams, videoStream: ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
+interface SunflowerScene {
+    flowerImg: Image;
+    sunflowers: SunflowerInstance[];
+    config: Config;
+}
+
+export class Sunflower extends SceneGenerator<SunflowerScene> {
+    // v2: xoshiro streams, one per flower
+    readonly versions = [1, 2];
+
+    protected async buildScene(config: Config): Promise<SunflowerScene> {
         const flowerImg = await loadImage('./assets/sunflower.png');
 
-        const mainRng = new SeededRandom(CONFIG.seed);
+        const mainRng = sceneRandom(config, 2);
         const numSunflowers = mainRng.nextInt(2, 4);
         const sunflowers: SunflowerInstance[] = [];
 
         const padding = 0.15;
         for (let i = 0; i < numSunflowers; i++) {
+            // v1 drew every flower from the main stream
+            const rng = config.version === 1 ? mainRng : mainRng.fork(`flower-${i}`);
             sunflowers.push({
-                seed: CONFIG.seed,
-                rng: new SeededRandom(`${CONFIG.seed}-${i}`),
-                x: mainRng.nextFloat(padding, 1 - padding), 
-                scale: mainRng.nextFloat(0.7, 1.0),
-                swayOffset: mainRng.nextFloat(0, Math.PI * 2)
+                x: rng.nextFloat(padding, 1 - padding), 
+                scale: rng.nextFloat(0.7, 1.0),
+                swayOffset: rng.nextFloat(0, Math.PI * 2)
             });
         }
         sunflowers.sort((a, b) => a.x - b.x);
 
-        const trunkStartPosition = { x: CONFIG.width / 2, y: CONFIG.height };
-
-        if (CONFIG.photoOnly) {
-            render(ctx, canvas, flowerImg, sunflowers, 1.0, CONFIG);
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: trunkStartPosition
-            };
-        }
-
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-        if (onStream) onStream(ffmpeg, ffmpeg.stdout);
-
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-        for (let frame = 0; frame < totalFrames; frame++) {
-            const rawProgress = frame / (totalFrames - 1);
-            
-            // "Ease-Out" curve: Starts fast (immediate visibility) and slows down (calming)
-            const progress = rawProgress * (2 - rawProgress); 
-            
-            render(ctx, canvas, flowerImg, sunflowers, progress, CONFIG);
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-        }
-
-        ffmpeg.stdin.end();
+        return { flowerImg, sunflowers, config };
+    }
 
-        // Wait for FFmpeg to finish encoding
-        await new Promise<void>((resolve, reject) => {
-            ffmpeg.on('close', (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            ffmpeg.on('error', reject);
-        });
+    protected layout(scene: SunflowerScene, config: Config): Layout {
+        // Sunflowers are drawn directly in canvas space
+        return { scale: 1, offsetX: 0, offsetY: 0, trunkStartPosition: { x: config.width / 2, y: config.height }, pixelScale: pixelScale(config) };
+    }
 
-        return { videoPath: CONFIG.filename, trunkStartPosition: trunkStartPosition };
+    protected measure(scene: SunflowerScene, config: Config): SceneBounds {
+        return measureSunflowers(scene.sunflowers, config);
     }
 
-    getInfo(Config?: Config): Promise<GeneratorResult> { throw new Error('Method not implemented.'); }
+    protected drawFrame(ctx: DrawingContext, scene: SunflowerScene, layout: Layout, frame: Frame) {
+        // "Ease-Out" curve: Starts fast (immediate visibility) and slows down (calming)
+        const progress = frame.t * (2 - frame.t);
+        render(ctx, scene.flowerImg, scene.sunflowers, progress, scene.config, frame.wind);
+    }
 }
 
-function render(ctx: CanvasRenderingContext2D, canvas: Canvas, flowerImg: Image, sunflowers: SunflowerInstance[], progress: number, config: Config) {
-    ctx.clearRect(0, 0, config.width, config.height);
-    const baseY = config.height - 10;
+function render(ctx: DrawingContext, flowerImg: Image, sunflowers: SunflowerInstance[], progress: number, config: Config, wind?: WindFrame) {
+    const baseY = groundY(config);
 
     // Find the minimum x to ensure the first flower starts at t=0
     const minX = Math.min(...sunflowers.map(s => s.x));
@@ -101,24 +73,29 @@ function render(ctx: CanvasRenderingContext2D, canvas: Canvas, flowerImg: Image,
         const flowerProgress = Math.max(0, Math.min(1, (progress - stagger) / (1 - stagger)));
         
         if (flowerProgress > 0) {
-            drawOrganicPlant(ctx, flowerImg, flower, flower.x * config.width, baseY, flowerProgress, config);
+            drawOrganicPlant(ctx, flowerImg, flower, flower.x * config.width, baseY, flowerProgress, config, wind);
         }
     }
 }
 
-function drawOrganicPlant(ctx: CanvasRenderingContext2D, flowerImg: Image, instance: SunflowerInstance, startX: number, startY: number, progress: number, config: Config) {
-    const segments = 25;
+// Stems start just above the bottom edge
+function groundY(config: Config): number {
+    return config.height - 10 * pixelScale(config);
+}
+
+interface StemPoint { x: number; y: number; width: number; }
+
+const STEM_SEGMENTS = 25;
+
+// Fully grown stem geometry; growth only reveals more of it
+function buildStem(instance: SunflowerInstance, startX: number, startY: number, config: Config): { points: StemPoint[]; totalHeight: number } {
+    const segments = STEM_SEGMENTS;
     const headRadius = (config.width * 0.296) / 2;
-    const maxPossibleHeight = config.height - headRadius - 40; 
+    const maxPossibleHeight = config.height - headRadius - 40 * pixelScale(config);
     const totalHeight = maxPossibleHeight * instance.scale;
     const segmentLen = totalHeight / segments;
     const baseWidth = config.width * 0.032;
 
-    // Split animation: Stem/Leaves take 85%, Head takes the final 15%
-    const stemDoneThreshold = 0.85;
-    const stemProgress = Math.min(1, progress / stemDoneThreshold);
-    const headProgress = progress > stemDoneThreshold ? (progress - stemDoneThreshold) / (1 - stemDoneThreshold) : 0;
-
     let points = [{ x: startX, y: startY, width: baseWidth * (totalHeight / (config.height * 0.85)) }];
 
     for (let i = 1; i <= segments; i++) {
@@ -131,6 +108,69 @@ function drawOrganicPlant(ctx: CanvasRenderingContext2D, flowerImg: Image, insta
         const width = baseWidth * (totalHeight / (config.height * 0.85)) * (1 - t * 0.6);
         points.push({ x: nextX, y: nextY, width });
     }
+    return { points, totalHeight };
+}
+
+/**
+ * Bends a stem in the wind: each point turns about the root by a share of
+ * the bend that grows with its height, so the stem curves and the head
+ * moves most. Positive bends lean clockwise, as in `swayBranches`.
+ */
+function swayStem(points: StemPoint[], bend: number): StemPoint[] {
+    const root = points[0]!;
+    return points.map((p, i) => {
+        const angle = bend * (i / STEM_SEGMENTS);
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const dx = p.x - root.x;
+        const dy = p.y - root.y;
+        return { ...p, x: root.x + cos * dx - sin * dy, y: root.y + sin * dx + cos * dy };
+    });
+}
+
+function isLeafSegment(i: number): boolean {
+    return i > 5 && i < STEM_SEGMENTS - 3 && i % 4 === 0;
+}
+
+/**
+ * Approximate extents of the fully grown flowers without drawing them.
+ * Leaves reach roughly 0.15 of the width sideways from the stem and the
+ * head is drawn rotated, so its half-diagonal is used.
+ */
+function measureSunflowers(sunflowers: SunflowerInstance[], config: Config): SceneBounds {
+    const bounds = emptyBounds();
+    const canopy = emptyBounds();
+    const baseY = groundY(config);
+
+    for (const flower of sunflowers) {
+        const { points, totalHeight } = buildStem(flower, flower.x * config.width, baseY, config);
+        points.forEach((p, i) => {
+            includeBox(bounds, p.x, p.y, p.width / 2);
+            if (isLeafSegment(i)) {
+                includeBox(bounds, p.x, p.y + config.height * 0.06, config.width * 0.15, config.height * 0.08);
+            }
+        });
+
+        const head = points[points.length - 1]!;
+        const headSize = config.width * 0.296 * (totalHeight / (config.height * 0.85));
+        includeBox(canopy, head.x, head.y, headSize / 2 * Math.SQRT2);
+    }
+
+    return { bounds, canopy };
+}
+
+function drawOrganicPlant(ctx: DrawingContext, flowerImg: Image, instance: SunflowerInstance, startX: number, startY: number, progress: number, config: Config, wind?: WindFrame) {
+    const segments = STEM_SEGMENTS;
+    const stem = buildStem(instance, startX, startY, config);
+    const { totalHeight } = stem;
+    // Flowers further across the canvas catch each gust a little later
+    const bend = wind ? wind.field.bendAt(wind.loopPhase, instance.x * 2) : 0;
+    const points = wind ? swayStem(stem.points, bend) : stem.points;
+
+    // Split animation: Stem/Leaves take 85%, Head takes the final 15%
+    const stemDoneThreshold = 0.85;
+    const stemProgress = Math.min(1, progress / stemDoneThreshold);
+    const headProgress = progress > stemDoneThreshold ? (progress - stemDoneThreshold) / (1 - stemDoneThreshold) : 0;
 
     ctx.lineJoin = 'round';
     ctx.lineCap = 'round';
@@ -162,7 +202,7 @@ function drawOrganicPlant(ctx: CanvasRenderingContext2D, flowerImg: Image, insta
     }
     
     for (let i = 1; i <= segments; i++) {
-        if (i > 5 && i < segments - 3 && i % 4 === 0) {
+        if (isLeafSegment(i)) {
             if (branchProgress >= i) {
                 const point = points[i];
                 const side = (i / 4) % 2 === 0 ? 1 : -1;
@@ -178,11 +218,11 @@ function drawOrganicPlant(ctx: CanvasRenderingContext2D, flowerImg: Image, insta
         const head = points[points.length - 1];
         if (!head) return;
         const headScale = Math.sin(headProgress * Math.PI / 2);
-        drawFlowerHead(ctx, flowerImg, head.x, head.y, headScale * (totalHeight / (config.height * 0.85)), config);
+        drawFlowerHead(ctx, flowerImg, head.x, head.y, headScale * (totalHeight / (config.height * 0.85)), config, bend);
     }
 }
 
-function drawRealisticLeaf(ctx: CanvasRenderingContext2D, x: number, y: number, side: number, stemWidth: number, progress: number, config: Config) {
+function drawRealisticLeaf(ctx: DrawingContext, x: number, y: number, side: number, stemWidth: number, progress: number, config: Config) {
     if (progress <= 0) return;
     ctx.save();
     ctx.translate(x, y);
@@ -204,7 +244,7 @@ function drawRealisticLeaf(ctx: CanvasRenderingContext2D, x: number, y: number,
         ctx.rotate(side * 0.5);
 
         const s = config.width * 0.046 * bladeProgress;
-        if (s < 0.5) { ctx.restore(); return; }
+        if (s < 0.5 * pixelScale(config)) { ctx.restore(); return; }
 
         ctx.beginPath();
         ctx.moveTo(0, 0);
@@ -220,12 +260,12 @@ function drawRealisticLeaf(ctx: CanvasRenderingContext2D, x: number, y: number,
     ctx.restore();
 }
 
-function drawFlowerHead(ctx: CanvasRenderingContext2D, flowerImg: Image, x: number, y: number, scale: number, config: Config) {
+function drawFlowerHead(ctx: DrawingContext, flowerImg: Image, x: number, y: number, scale: number, config: Config, bend: number = 0) {
     if (!flowerImg || scale <= 0) return;
     const size = config.width * 0.296 * scale; 
     ctx.save();
     ctx.translate(x, y);
-    ctx.rotate(0.3 * scale); 
+    ctx.rotate(0.3 * scale + bend); 
     ctx.drawImage(flowerImg, -size / 2, -size / 2, size, size);
     ctx.restore();
 }
\ No newline at end of file
@@ -1,311 +1,146 @@
-import { createCanvas, CanvasRenderingContext2D } from 'canvas';
-import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
-import { createHash, randomBytes } from 'crypto';
-import * as fs from 'fs';
 import { SeededRandom } from '../core/seeded-random';
 import type { Color } from '../types/color';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { Generate } from '../models/generate';
-import type { GeneratorResult } from '../types/generator-result';
-import type { Context } from 'baojs';
-import { get } from 'http';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
-
-
-export class Tree implements Generate {
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import { AUTUMN_PALETTE, drawSnowCaps, leafFallOffset, planLeafFall, seasonRandom, type LeafFall } from '../core/seasons';
+import type { Season } from '../types/season';
+import type { DrawingContext } from '../models/drawing-context';
+
+interface TreeScene {
+    tree: Branch;
+    maxDistance: number;
+    /** Bounds of the tree in full leaf, so every season is fitted at the same size */
+    layoutBounds: Bounds;
+    season?: Season;
+}
 
-    getInfo(config?: Config): Promise<GeneratorResult> {
-        if (!config) {
-            throw new Error('Config is required to get tree info.');
-        }
+export class Tree extends SceneGenerator<TreeScene> {
+    readonly seasonalGeometry = true;
 
+    protected async buildScene(config: Config): Promise<TreeScene> {
         const rand = new SeededRandom(config.seed);
-        const startPos = new Vector2(0, 0);
-        const initialLength = 200;
-        const maxDepth = 7;
-
-        const fullTree = generateFullTree(rand, startPos, initialLength, -90, maxDepth, 0);
-        const bounds = calculateBounds(fullTree);
-        const scale = Math.min(
-            (config.width - config.padding * 2) / (bounds.maxX - bounds.minX),
-            (config.height - config.padding * 2) / (bounds.maxY - bounds.minY)
-        );
-
-
-        const treeCenterX = bounds.minX + (bounds.maxX - bounds.minX) / 2;
-        const targetCenterX = config.width / 2;
-
-        const offsetX = targetCenterX - treeCenterX * scale;
-        const offsetY = (config.height - config.padding) - bounds.maxY * scale;
-
-        return Promise.resolve({
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        });
-    }
-
-    async generate(con: Context, onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        console.log("Generating Tree");
 
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
-
-        const rand = new SeededRandom(CONFIG.seed);
-
-        // Generate logical tree roughly centered at 0,0 first, then shift
-        // We use a dummy start position, we will move it later
+        // Generate logical tree roughly centered at 0,0; the pipeline fits it to the canvas
         const startPos = new Vector2(0, 0);
         const initialLength = 200; // Arbitrary unit, will be scaled
-
         const maxDepth = 7;
 
-        const fullTree = generateFullTree(
-            rand,
-            startPos,
-            initialLength,
-            -90,
-            maxDepth,
-            0
-        );
-
-        const bounds = calculateBounds(fullTree);
-        const treeWidth = bounds.maxX - bounds.minX;
-        const treeHeight = bounds.maxY - bounds.minY;
-
-        // Available space
-        const availW = CONFIG.width - (CONFIG.padding * 2);
-        const availH = CONFIG.height - (CONFIG.padding * 2);
-
-        // Scale to fit (maintain aspect ratio)
-        const scaleX = availW / treeWidth;
-        const scaleY = availH / treeHeight;
-        const finalScale = Math.min(scaleX, scaleY);
-
-        // Calculate offsets to center the tree
-        // We want the bounding box center to align with canvas center
-        // However, for a tree, it usually looks best if the "root" is at the bottom-center
-        // But since we want it "perfectly in frame", let's center the bounding box vertically too, 
-        // or align bottom. Let's align bottom of tree to bottom margin.
-
-        const treeCenterX = bounds.minX + (treeWidth / 2);
-        const targetCenterX = CONFIG.width / 2;
-        const offsetX = targetCenterX - (treeCenterX * finalScale);
-
-        // Align bottom: bounds.maxY should be at CONFIG.height - padding
-        // Note: Canvas Y goes down. -90 deg means Y decreases. 
-        // bounds.maxY is likely the root (0), bounds.minY is the top leaves.
-        const offsetY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * finalScale);
-
-        console.log(`   Tree Width: ${treeWidth.toFixed(0)}, Height: ${treeHeight.toFixed(0)}`);
-        console.log(`   Scale: ${finalScale.toFixed(3)}`);
-        console.log(`   Offset: ${offsetX.toFixed(0)}, ${offsetY.toFixed(0)}`);
-
-        const maxDistance = getMaxDist(fullTree);
-        console.log(`   Max Growth Distance: ${maxDistance.toFixed(0)}`);
-
-        if (CONFIG.photoOnly) {
-            console.log("📸 Generating final tree image only (video creation skipped).");
-
-            // Set growth to maximum to draw the final state
-            const currentGrowthDist = maxDistance + 700;
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
+        const tree = generateFullTree(rand, startPos, initialLength, -90, maxDepth, 0);
+        const layoutBounds = calculateBounds(tree);
+        if (config.season) {
+            applySeason(tree, config.season, seasonRandom(config));
+        }
+        return { tree, maxDistance: getMaxDist(tree), layoutBounds, season: config.season };
+    }
 
-            const branches: SimpleBranch[] = [];
-            let entities: Entity[] = [];
+    protected layout(scene: TreeScene, config: Config): Layout {
+        // Align the root to the bottom padding; bounds.maxY is the root (0), bounds.minY the top leaves
+        return fitToBounds(scene.layoutBounds, config);
+    }
 
-            flattenTreeOrganic(fullTree, branches, entities, currentGrowthDist, finalScale, offsetX, offsetY);
+    protected measure(scene: TreeScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
+    }
 
-            const leaves = entities.filter(e => e.type === 'leaf');
-            const fruits = entities.filter(e => e.type === 'fruit');
-            leaves.sort((a, b) => a.center.y - b.center.y);
-            fruits.sort((a, b) => a.center.y - b.center.y);
-            entities = leaves.concat(fruits);
+    protected drawFrame(ctx: DrawingContext, scene: TreeScene, layout: Layout, frame: Frame) {
+        // Organic Growth: Distance based
+        // We grow past maxDistance to ensure fruits have time to grow (they have a 500-unit delay)
+        const currentGrowthDist = frame.t * (scene.maxDistance + 700);
 
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
+        const branches: SimpleBranch[] = [];
+        let entities: Entity[] = [];
 
-            ctx.strokeStyle = '#3E2723';
-            for (const b of branches) {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            }
-            ctx.strokeStyle = '#6D4C41';
-            for (const b of branches) {
-                if (b.strokeWidth < 1) continue;
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth * 0.5;
-                const off = -1;
-                ctx.moveTo(b.start.x + off, b.start.y + off);
-                ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
-                ctx.stroke();
-            }
-
-            for (const e of entities) {
-                const prevAlpha = ctx.globalAlpha;
-                ctx.globalAlpha = (e.opacity ?? 1);
-                ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                ctx.beginPath();
-                ctx.arc(e.center.x + 2, e.center.y + 5, e.radius, 0, Math.PI * 2);
-                ctx.fill();
-                const g = ctx.createRadialGradient(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.1, e.center.x, e.center.y, e.radius);
-                g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
-                g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
-                ctx.beginPath();
-                ctx.fillStyle = g;
-                ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
-                ctx.fill();
-                if (e.type === 'fruit') {
-                    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
-                    ctx.beginPath();
-                    ctx.arc(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.25, 0, Math.PI * 2);
-                    ctx.fill();
-                }
-                ctx.globalAlpha = prevAlpha;
-            }
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTreeOrganic(tree, branches, entities, currentGrowthDist, layout.scale, layout.offsetX, layout.offsetY);
 
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
+        entities.forEach(e => {
+            if (!e.fall) return;
+            const offset = leafFallOffset(e.fall, frame.t);
+            e.center = new Vector2(e.center.x + offset.x * layout.scale, e.center.y + offset.y * layout.scale);
+        });
 
-            console.log(`\n✅ Image generation complete!`);
-            console.log(`   Image saved: ${CONFIG.imageFilename}`);
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: offsetX, y: offsetY }
-            }; // Exit after saving the image
+        // Separate leaves & fruits for rendering order
+        const leaves = entities.filter(e => e.type === 'leaf');
+        const fruits = entities.filter(e => e.type === 'fruit');
+
+        // Sort all entities back-to-front (top/back first), fruits drawn last so they appear on top
+        leaves.sort((a, b) => a.center.y - b.center.y);
+        fruits.sort((a, b) => a.center.y - b.center.y);
+        // Fruits are always drawn on top, never culled
+        entities = leaves.concat(fruits);
+
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+
+        // DRAW TREE TRUNK
+        ctx.strokeStyle = '#3E2723';
+        for (const b of branches) {
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth;
+            ctx.moveTo(b.start.x, b.start.y);
+            ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
+            ctx.stroke();
         }
 
-
-    
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-
-        console.log(`🎥 Spawning FFmpeg process: ${CONFIG.filename}`);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-
-        if (onStream) {
-            onStream(ffmpeg, ffmpeg.stdout);
+        ctx.strokeStyle = '#6D4C41';
+        for (const b of branches) {
+            if (b.strokeWidth < layout.pixelScale) continue;
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth * 0.5;
+            const off = -layout.pixelScale;
+            ctx.moveTo(b.start.x + off, b.start.y + off);
+            ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
+            ctx.stroke();
         }
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-
-        for (let frame = 0; frame < totalFrames; frame++) {
-            const t = frame / (totalFrames - 1);
-
-            // Organic Growth: Distance based
-            // We grow past maxDistance to ensure fruits have time to grow (they have a 500-unit delay)
-            const currentGrowthDist = t * (maxDistance + 700);
-
-            // Clear Rect for TRANSPARENT background
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const branches: SimpleBranch[] = [];
-            let entities: Entity[] = [];
-
-            flattenTreeOrganic(fullTree, branches, entities, currentGrowthDist, finalScale, offsetX, offsetY);
-
-            // Separate leaves & fruits for rendering order
-            const leaves = entities.filter(e => e.type === 'leaf');
-            const fruits = entities.filter(e => e.type === 'fruit');
-
-            // Sort all entities back-to-front (top/back first), fruits drawn last so they appear on top
-            leaves.sort((a, b) => a.center.y - b.center.y);
-            fruits.sort((a, b) => a.center.y - b.center.y);
-            // Fruits are always drawn on top, never culled
-            entities = leaves.concat(fruits);
-
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-
-            // DRAW TREE TRUNK
-            ctx.strokeStyle = '#3E2723';
-            for (const b of branches) {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            }
-
-            ctx.strokeStyle = '#6D4C41';
-            for (const b of branches) {
-                if (b.strokeWidth < 1) continue;
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth * 0.5;
-                const off = -1;
-                ctx.moveTo(b.start.x + off, b.start.y + off);
-                ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
-                ctx.stroke();
-            }
-
-            // DRAW LEAVES & FRUITS
-            for (const e of entities) {
-                // Use per-entity opacity (fade-in) and restore after drawing
-                const prevAlpha = ctx.globalAlpha;
-                ctx.globalAlpha = (e.opacity ?? 1);
-
-                // Shadow (will be affected by globalAlpha so it fades with the entity)
-                ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                ctx.beginPath();
-                ctx.arc(e.center.x + 2, e.center.y + 5, e.radius, 0, Math.PI * 2);
-                ctx.fill();
-
-                // Main Gradient
-                const g = ctx.createRadialGradient(
-                    e.center.x - e.radius * 0.3,
-                    e.center.y - e.radius * 0.3,
-                    e.radius * 0.1,
-                    e.center.x,
-                    e.center.y,
-                    e.radius
-                );
 
-                // We rely on globalAlpha for fade; color stops are fully opaque
-                g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
-                g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
+        if (scene.season === 'winter') {
+            drawSnowCaps(ctx, branches, layout.pixelScale);
+        }
 
+        // DRAW LEAVES & FRUITS
+        for (const e of entities) {
+            // Use per-entity opacity (fade-in) and restore after drawing
+            const prevAlpha = ctx.globalAlpha;
+            ctx.globalAlpha = (e.opacity ?? 1);
+
+            // Shadow (will be affected by globalAlpha so it fades with the entity)
+            ctx.fillStyle = 'rgba(0,0,0,0.1)';
+            ctx.beginPath();
+            ctx.arc(e.center.x + 2 * layout.pixelScale, e.center.y + 5 * layout.pixelScale, e.radius, 0, Math.PI * 2);
+            ctx.fill();
+
+            // Main Gradient
+            const g = ctx.createRadialGradient(
+                e.center.x - e.radius * 0.3,
+                e.center.y - e.radius * 0.3,
+                e.radius * 0.1,
+                e.center.x,
+                e.center.y,
+                e.radius
+            );
+
+            // We rely on globalAlpha for fade; color stops are fully opaque
+            g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
+            g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
+
+            ctx.beginPath();
+            ctx.fillStyle = g;
+            ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
+            ctx.fill();
+
+            // Extra shine for fruits
+            if (e.type === 'fruit') {
+                ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
                 ctx.beginPath();
-                ctx.fillStyle = g;
-                ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
+                ctx.arc(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.25, 0, Math.PI * 2);
                 ctx.fill();
-
-                // Extra shine for fruits
-                if (e.type === 'fruit') {
-                    ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
-                    ctx.beginPath();
-                    ctx.arc(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.25, 0, Math.PI * 2);
-                    ctx.fill();
-                }
-
-                ctx.globalAlpha = prevAlpha;
             }
 
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-            // if (frame % 30 === 0) {
-            //     const pct = Math.round((frame / totalFrames) * 100);
-            //     console.log('progress:', pct + '%');
-            // }
+            ctx.globalAlpha = prevAlpha;
         }
-        ffmpeg.stdin.end();
-
-        // Wait for FFmpeg to finish encoding
-        await new Promise<void>((resolve, reject) => {
-            ffmpeg.on('close', (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            ffmpeg.on('error', reject);
-        });
-
-        return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        };
     }
 }
 
@@ -323,6 +158,7 @@ interface Entity {
     distFromRoot: number; // Distance from root for timing
     opacity?: number; // 0..1 fade-in multiplier
     attachmentPoint?: Vector2; // Where the leaf/fruit attaches to the branch
+    fall?: LeafFall; // Autumn leaves that drop once grown
 }
 
 class Branch {
@@ -347,10 +183,6 @@ class SimpleBranch {
     ) { }
 }
 
-interface Bounds {
-    minX: number; maxX: number; minY: number; maxY: number;
-}
-
 
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 
@@ -482,6 +314,30 @@ function generateFullTree(
     return new Branch(start, end, strokeWidth, control, length, currentDist, children, entities);
 }
 
+// Seasonal changes on top of the generated tree; the branches stay the same
+function applySeason(b: Branch, season: Season, rand: SeededRandom) {
+    if (season === 'winter') {
+        b.entities = [];
+    } else if (season === 'autumn') {
+        b.entities.forEach(e => {
+            if (e.type !== 'leaf') return;
+            const color = AUTUMN_PALETTE[rand.nextInt(0, AUTUMN_PALETTE.length)]!;
+            e.baseColor = { ...color };
+            e.highlightColor = { r: Math.min(255, color.r + 40), g: Math.min(255, color.g + 40), b: Math.min(255, color.b + 40), a: 1.0 };
+            // The root sits at y = 0, so that is the ground
+            e.fall = planLeafFall(rand, e.center.y, 0, 0.2);
+        });
+    }
+    b.children.forEach(child => applySeason(child, season, rand));
+}
+
+// Where an entity ends up on the last frame
+function finalCenter(e: Entity): Vector2 {
+    if (!e.fall) return e.center;
+    const offset = leafFallOffset(e.fall, 1);
+    return new Vector2(e.center.x + offset.x, e.center.y + offset.y);
+}
+
 // Recurse tree to find min/max coords
 function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }): Bounds {
     // Check branch points
@@ -492,16 +348,24 @@ function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, ma
 
     // Check entities (leaves expand bounds)
     b.entities.forEach(e => {
-        currentBounds.minX = Math.min(currentBounds.minX, e.center.x - e.radius);
-        currentBounds.maxX = Math.max(currentBounds.maxX, e.center.x + e.radius);
-        currentBounds.minY = Math.min(currentBounds.minY, e.center.y - e.radius);
-        currentBounds.maxY = Math.max(currentBounds.maxY, e.center.y + e.radius);
+        const center = finalCenter(e);
+        currentBounds.minX = Math.min(currentBounds.minX, center.x - e.radius);
+        currentBounds.maxX = Math.max(currentBounds.maxX, center.x + e.radius);
+        currentBounds.minY = Math.min(currentBounds.minY, center.y - e.radius);
+        currentBounds.maxY = Math.max(currentBounds.maxY, center.y + e.radius);
     });
 
     b.children.forEach(child => calculateBounds(child, currentBounds));
     return currentBounds;
 }
 
+// Leaves and fruits still on the tree
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.filter(e => !e.fall).forEach(e => includeBox(bounds, e.center.x, e.center.y, e.radius));
+    b.children.forEach(child => calculateCanopyBounds(child, bounds));
+    return bounds;
+}
+
 // Find the maximum path length in the tree for animation timing
 function getMaxDist(b: Branch): number {
     let max = b.distFromRoot + b.length;
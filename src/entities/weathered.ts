@@ -1,175 +1,87 @@
-import { createCanvas, CanvasRenderingContext2D } from 'canvas';
-import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
-import { createHash, randomBytes } from 'crypto';
-import * as fs from 'fs';
 import { SeededRandom } from '../core/seeded-random';
 import type { Color } from '../types/color';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { Generate } from '../models/generate';
-import type { GeneratorResult } from '../types/generator-result';
-import type { Context } from 'baojs';
-import { get } from 'http';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
-
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import type { DrawingContext } from '../models/drawing-context';
+
+interface WeatheredScene {
+    tree: Branch;
+    maxDistance: number;
+}
 
-export class Weathered implements Generate {
-
-    getInfo(config?: Config): Promise<GeneratorResult> {
-        if (!config) {
-            throw new Error('Config is required to get tree info.');
-        }
+export class Weathered extends SceneGenerator<WeatheredScene> {
 
+    protected async buildScene(config: Config): Promise<WeatheredScene> {
         const rand = new SeededRandom(config.seed);
+
+        // Generate logical tree roughly centered at 0,0; the pipeline fits it to the canvas
         const startPos = new Vector2(0, 0);
-        const initialLength = 200;
+        const initialLength = 200; // Arbitrary unit, will be scaled
         const maxDepth = 7;
 
-        const fullTree = generateFullTree(rand, startPos, initialLength, -90, maxDepth, 0);
-        const bounds = calculateBounds(fullTree);
-        const scale = Math.min(
-            (config.width - config.padding * 2) / (bounds.maxX - bounds.minX),
-            (config.height - config.padding * 2) / (bounds.maxY - bounds.minY)
-        );
-
-
-        const treeCenterX = bounds.minX + (bounds.maxX - bounds.minX) / 2;
-        const targetCenterX = config.width / 2;
+        const tree = generateFullTree(rand, startPos, initialLength, -90, maxDepth, 0);
+        return { tree, maxDistance: getMaxDist(tree) };
+    }
 
-        const offsetX = targetCenterX - treeCenterX * scale;
-        const offsetY = (config.height - config.padding) - bounds.maxY * scale;
+    protected layout(scene: WeatheredScene, config: Config): Layout {
+        return fitToBounds(calculateBounds(scene.tree), config);
+    }
 
-        return Promise.resolve({
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        });
+    protected measure(scene: WeatheredScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
     }
 
-    async generate(con: Context, onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        console.log("Generating Tree");
+    protected drawFrame(ctx: DrawingContext, scene: WeatheredScene, layout: Layout, frame: Frame) {
+        const currentGrowthDist = frame.t * (scene.maxDistance + 700);
 
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
+        const branches: SimpleBranch[] = [];
+        const entities: Entity[] = [];
 
-        const rand = new SeededRandom(CONFIG.seed);
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTreeOrganic(tree, branches, entities, currentGrowthDist, layout.scale, layout.offsetX, layout.offsetY);
 
-        // Generate logical tree roughly centered at 0,0 first, then shift
-        // We use a dummy start position, we will move it later
-        const startPos = new Vector2(0, 0);
-        const initialLength = 200; // Arbitrary unit, will be scaled
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
 
-        const maxDepth = 7;
+        ctx.strokeStyle = '#3E2723';
+        for (const b of branches) {
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth;
+            ctx.moveTo(b.start.x, b.start.y);
+            ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
+            ctx.stroke();
+        }
+        ctx.strokeStyle = '#6D4C41';
+        for (const b of branches) {
+            if (b.strokeWidth < layout.pixelScale) continue;
+            ctx.beginPath();
+            ctx.lineWidth = b.strokeWidth * 0.5;
+            const off = -layout.pixelScale;
+            ctx.moveTo(b.start.x + off, b.start.y + off);
+            ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
+            ctx.stroke();
+        }
 
-        const fullTree = generateFullTree(
-            rand,
-            startPos,
-            initialLength,
-            -90,
-            maxDepth,
-            0
-        );
-
-        const bounds = calculateBounds(fullTree);
-        const treeWidth = bounds.maxX - bounds.minX;
-        const treeHeight = bounds.maxY - bounds.minY;
-
-        // Available space
-        const availW = CONFIG.width - (CONFIG.padding * 2);
-        const availH = CONFIG.height - (CONFIG.padding * 2);
-
-        // Scale to fit (maintain aspect ratio)
-        const scaleX = availW / treeWidth;
-        const scaleY = availH / treeHeight;
-        const finalScale = Math.min(scaleX, scaleY);
-
-        // Calculate offsets to center the tree
-        // We want the bounding box center to align with canvas center
-        // However, for a tree, it usually looks best if the "root" is at the bottom-center
-        // But since we want it "perfectly in frame", let's center the bounding box vertically too, 
-        // or align bottom. Let's align bottom of tree to bottom margin.
-
-        const treeCenterX = bounds.minX + (treeWidth / 2);
-        const targetCenterX = CONFIG.width / 2;
-        const offsetX = targetCenterX - (treeCenterX * finalScale);
-
-        // Align bottom: bounds.maxY should be at CONFIG.height - padding
-        // Note: Canvas Y goes down. -90 deg means Y decreases. 
-        // bounds.maxY is likely the root (0), bounds.minY is the top leaves.
-        const offsetY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * finalScale);
-
-        console.log(`   Tree Width: ${treeWidth.toFixed(0)}, Height: ${treeHeight.toFixed(0)}`);
-        console.log(`   Scale: ${finalScale.toFixed(3)}`);
-        console.log(`   Offset: ${offsetX.toFixed(0)}, ${offsetY.toFixed(0)}`);
-
-        const maxDistance = getMaxDist(fullTree);
-        console.log(`   Max Growth Distance: ${maxDistance.toFixed(0)}`);
-
-        if (CONFIG.photoOnly) {
-            console.log("📸 Generating final tree image only (video creation skipped).");
-
-            // Set growth to maximum to draw the final state
-            const currentGrowthDist = maxDistance + 700;
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-
-            const branches: SimpleBranch[] = [];
-            let entities: Entity[] = [];
-
-            flattenTreeOrganic(fullTree, branches, entities, currentGrowthDist, finalScale, offsetX, offsetY);
-
-
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-
-            ctx.strokeStyle = '#3E2723';
-            for (const b of branches) {
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth;
-                ctx.moveTo(b.start.x, b.start.y);
-                ctx.quadraticCurveTo(b.control.x, b.control.y, b.end.x, b.end.y);
-                ctx.stroke();
-            }
-            ctx.strokeStyle = '#6D4C41';
-            for (const b of branches) {
-                if (b.strokeWidth < 1) continue;
-                ctx.beginPath();
-                ctx.lineWidth = b.strokeWidth * 0.5;
-                const off = -1;
-                ctx.moveTo(b.start.x + off, b.start.y + off);
-                ctx.quadraticCurveTo(b.control.x + off, b.control.y + off, b.end.x + off, b.end.y + off);
-                ctx.stroke();
-            }
-
-            for (const e of entities) {
-                const prevAlpha = ctx.globalAlpha;
-                ctx.globalAlpha = (e.opacity ?? 1);
-                ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                ctx.beginPath();
-                ctx.arc(e.center.x + 2, e.center.y + 5, e.radius, 0, Math.PI * 2);
-                ctx.fill();
-                const g = ctx.createRadialGradient(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.1, e.center.x, e.center.y, e.radius);
-                g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
-                g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
-                ctx.beginPath();
-                ctx.fillStyle = g;
-                ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
-                ctx.fill();
-                
-                ctx.globalAlpha = prevAlpha;
-            }
-
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-
-            console.log(`\n✅ Image generation complete!`);
-            console.log(`   Image saved: ${CONFIG.imageFilename}`);
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: offsetX, y: offsetY }
-            }; // Exit after saving the image
+        for (const e of entities) {
+            const prevAlpha = ctx.globalAlpha;
+            ctx.globalAlpha = (e.opacity ?? 1);
+            ctx.fillStyle = 'rgba(0,0,0,0.1)';
+            ctx.beginPath();
+            ctx.arc(e.center.x + 2 * layout.pixelScale, e.center.y + 5 * layout.pixelScale, e.radius, 0, Math.PI * 2);
+            ctx.fill();
+            const g = ctx.createRadialGradient(e.center.x - e.radius * 0.3, e.center.y - e.radius * 0.3, e.radius * 0.1, e.center.x, e.center.y, e.radius);
+            g.addColorStop(0, `rgba(${e.highlightColor.r},${e.highlightColor.g},${e.highlightColor.b},1)`);
+            g.addColorStop(1, `rgba(${e.baseColor.r},${e.baseColor.g},${e.baseColor.b},1)`);
+            ctx.beginPath();
+            ctx.fillStyle = g;
+            ctx.arc(e.center.x, e.center.y, e.radius, 0, Math.PI * 2);
+            ctx.fill();
+            
+            ctx.globalAlpha = prevAlpha;
         }
-        return {};
     }
 }
 
@@ -210,10 +122,6 @@ class SimpleBranch {
     ) { }
 }
 
-interface Bounds {
-    minX: number; maxX: number; minY: number; maxY: number;
-}
-
 
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 
@@ -296,6 +204,13 @@ function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, ma
     return currentBounds;
 }
 
+// Leaves and fruits only
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.forEach(e => includeBox(bounds, e.center.x, e.center.y, e.radius));
+    b.children.forEach(child => calculateCanopyBounds(child, bounds));
+    return bounds;
+}
+
 // Find the maximum path length in the tree for animation timing
 function getMaxDist(b: Branch): number {
     let max = b.distFromRoot + b.length;
@@ -1,61 +1,35 @@
-import { createCanvas, CanvasRenderingContext2D, loadImage, Image } from 'canvas';
-import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
-import * as fs from 'fs';
-import * as path from 'path';
+import { loadImage, Image } from 'canvas';
 import { SeededRandom } from '../core/seeded-random';
-import { DEFAULT_CONFIG, type Config } from '../types/config';
-import type { Generate } from '../models/generate';
-import type { GeneratorResult } from '../types/generator-result';
-import type { Context } from 'baojs';
-import { getFFmpegArgs } from '../core/ffmpeg-args';
-
-export class WeepingWillow implements Generate {
-
-    getInfo(config?: Config): Promise<GeneratorResult> {
-        if (!config) throw new Error('Config is required.');
-        
-        // Dummy run for bounds calculation
-        const rand = new SeededRandom(config.seed);
-        const startPos = new Vector2(0, 0);
-        const initialLength = 180;
-        const maxDepth = 8;
-        
-        const fullTree = generateWillowStructure(rand, startPos, initialLength, -90, maxDepth, maxDepth, 0);
-        const bounds = calculateBounds(fullTree);
-        
-        const scale = Math.min(
-            (config.width - config.padding * 2) / (bounds.maxX - bounds.minX),
-            (config.height - config.padding * 2) / (bounds.maxY - bounds.minY)
-        );
-        
-        const treeCenterX = bounds.minX + (bounds.maxX - bounds.minX) / 2;
-        const offsetX = config.width / 2 - treeCenterX * scale;
-        const offsetY = (config.height - config.padding) - bounds.maxY * scale;
-        
-        return Promise.resolve({ trunkStartPosition: { x: offsetX, y: offsetY } });
-    }
+import type { Config } from '../types/config';
+import type { Bounds, Layout } from '../types/layout';
+import { SceneGenerator, fitToBounds, type Frame, type SceneBounds } from '../core/renderer';
+import { emptyBounds, includeBox } from '../core/bounds';
+import { swayBranches } from '../core/wind';
+import type { DrawingContext } from '../models/drawing-context';
+
+interface WeepingWillowScene {
+    tree: Branch;
+    maxDistance: number;
+    foliageImg: Image;
+}
 
-    async generate(con: Context, onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG: Config = DEFAULT_CONFIG): Promise<GeneratorResult> {
-        console.log("Generating Weeping Willow with Assets");
+export class WeepingWillow extends SceneGenerator<WeepingWillowScene> {
 
+    protected async buildScene(config: Config): Promise<WeepingWillowScene> {
         let foliageImg: Image;
         try {
-             foliageImg = await loadImage("./assets/weeping_willow.png");
-             console.log("Asset loaded successfully.");
+            foliageImg = await loadImage("./assets/weeping_willow.png");
         } catch (e) {
             console.error(`FAILED to load foliage image. Ensure './assets/weeping_willow.png' exists.`);
             throw e;
         }
 
-        const canvas = createCanvas(CONFIG.width, CONFIG.height);
-        const ctx = canvas.getContext('2d');
-        const rand = new SeededRandom(CONFIG.seed);
-        
+        const rand = new SeededRandom(config.seed);
         const startPos = new Vector2(0, 0);
         const initialLength = 160; 
         const maxDepth = 8; 
 
-        const fullTree = generateWillowStructure(
+        const tree = generateWillowStructure(
             rand,
             startPos,
             initialLength,
@@ -65,97 +39,25 @@ export class WeepingWillow implements Generate {
             0
         );
 
-        const bounds = calculateBounds(fullTree);
-        const treeWidth = bounds.maxX - bounds.minX;
-        const treeHeight = bounds.maxY - bounds.minY;
-        const availW = CONFIG.width - (CONFIG.padding * 2);
-        const availH = CONFIG.height - (CONFIG.padding * 2);
-        const scaleX = availW / treeWidth;
-        const scaleY = availH / treeHeight;
-        const finalScale = Math.min(scaleX, scaleY);
-        
-        const treeCenterX = bounds.minX + (treeWidth / 2);
-        const offsetX = CONFIG.width / 2 - (treeCenterX * finalScale);
-        const offsetY = (CONFIG.height - CONFIG.padding) - (bounds.maxY * finalScale);
-
-        console.log(`   Tree Scale: ${finalScale.toFixed(3)}`);
-
-        if (CONFIG.photoOnly) {
-            const maxDistance = getMaxDist(fullTree);
-            const currentGrowthDist = maxDistance + 500; // Ensure everything is grown
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-            this.renderFrame(ctx, fullTree, foliageImg, currentGrowthDist, finalScale, offsetX, offsetY);
-            
-            const finalBuffer = canvas.toBuffer('image/png');
-            if (CONFIG.save_as_file) {
-                fs.writeFileSync(CONFIG.imageFilename, finalBuffer);
-            }
-            return {
-                imageBuffer: finalBuffer,
-                imagePath: CONFIG.save_as_file ? CONFIG.imageFilename : undefined,
-                trunkStartPosition: { x: offsetX, y: offsetY }
-            };
-        }
-
-        const ffmpegArgs = getFFmpegArgs(CONFIG);
-        console.log(`🎥 Spawning FFmpeg process: ${CONFIG.filename}`);
-        const ffmpeg = spawn('ffmpeg', ffmpegArgs);
-
-        if (onStream) {
-            onStream(ffmpeg, ffmpeg.stdout);
-        }
-
-        const totalFrames = CONFIG.durationSeconds * CONFIG.fps;
-        const maxDistance = getMaxDist(fullTree);
-        console.log(`   Max Growth Distance: ${maxDistance.toFixed(0)}`);
-        console.log(`   Total Frames: ${totalFrames}`);
-
-        ffmpeg.stderr.on('data', (data) => {
-            // console.error(`FFmpeg stderr: ${data}`);
-        });
-
-        for (let frame = 0; frame < totalFrames; frame++) {
-            if (frame % 30 === 0) console.log(`Frame ${frame}/${totalFrames}`);
-            const t = frame / (totalFrames - 1);
-            const currentGrowthDist = t * (maxDistance + 500);
-
-            ctx.clearRect(0, 0, CONFIG.width, CONFIG.height);
-            this.renderFrame(ctx, fullTree, foliageImg, currentGrowthDist, finalScale, offsetX, offsetY);
-
-            const buffer = canvas.toBuffer('image/png');
-            const ok = ffmpeg.stdin.write(buffer);
-            if (!ok) await new Promise(resolve => ffmpeg.stdin.once('drain', resolve));
-        }
-        ffmpeg.stdin.end();
+        return { tree, maxDistance: getMaxDist(tree), foliageImg };
+    }
 
-        await new Promise<void>((resolve, reject) => {
-            ffmpeg.on('close', (code) => {
-                if (code === 0) resolve();
-                else reject(new Error(`FFmpeg exited with code ${code}`));
-            });
-            ffmpeg.on('error', reject);
-        });
+    protected layout(scene: WeepingWillowScene, config: Config): Layout {
+        return fitToBounds(calculateBounds(scene.tree), config);
+    }
 
-        return {
-            videoPath: CONFIG.filename,
-            trunkStartPosition: { x: offsetX, y: offsetY }
-        };
+    protected measure(scene: WeepingWillowScene): SceneBounds {
+        return { bounds: calculateBounds(scene.tree), canopy: calculateCanopyBounds(scene.tree) };
     }
 
-    private renderFrame(
-        ctx: CanvasRenderingContext2D, 
-        tree: Branch, 
-        foliageImg: Image, 
-        growthDist: number, 
-        scale: number, 
-        offX: number, 
-        offY: number
-    ) {
+    protected drawFrame(ctx: DrawingContext, scene: WeepingWillowScene, layout: Layout, frame: Frame) {
+        const growthDist = frame.t * (scene.maxDistance + 500); // Past maxDistance so the last foliage finishes growing
+
         const branches: SimpleBranch[] = [];
         let entities: ImageEntity[] = [];
 
-        flattenTreeOrganic(tree, branches, entities, growthDist, scale, offX, offY);
+        const tree = frame.wind ? swayBranches(scene.tree, frame.wind) : scene.tree;
+        flattenTreeOrganic(tree, branches, entities, growthDist, layout.scale, layout.offsetX, layout.offsetY);
 
         // Sort images so lower ones draw on top (painter's algorithm approximation)
         entities.sort((a, b) => a.center.y - b.center.y);
@@ -188,9 +90,9 @@ export class WeepingWillow implements Generate {
             ctx.scale(finalImgScale, finalImgScale);
 
             // Center the image on the anchor point
-            const imgW = foliageImg.width;
-            const imgH = foliageImg.height;
-            ctx.drawImage(foliageImg, -imgW / 2, 0, imgW, imgH); // 0 Y-offset to hang *from* the branch
+            const imgW = scene.foliageImg.width;
+            const imgH = scene.foliageImg.height;
+            ctx.drawImage(scene.foliageImg, -imgW / 2, 0, imgW, imgH); // 0 Y-offset to hang *from* the branch
 
             ctx.restore();
             ctx.globalAlpha = prevAlpha;
@@ -223,7 +125,6 @@ class SimpleBranch {
     constructor(public start: Vector2, public end: Vector2, public strokeWidth: number, public control: Vector2) { }
 }
 
-interface Bounds { minX: number; maxX: number; minY: number; maxY: number; }
 const coerceIn = (val: number, min: number, max: number) => Math.max(min, Math.min(val, max));
 function smoothStep(t: number): number { return t * t * (3 - 2 * t); }
 
@@ -310,6 +211,13 @@ function calculateBounds(b: Branch, currentBounds: Bounds = { minX: Infinity, ma
     return currentBounds;
 }
 
+// Foliage images only, using the same safety margin as calculateBounds
+function calculateCanopyBounds(b: Branch, bounds: Bounds = emptyBounds()): Bounds {
+    b.entities.forEach(e => includeBox(bounds, e.center.x, e.center.y, 60));
+    b.children.forEach(child => calculateCanopyBounds(child, bounds));
+    return bounds;
+}
+
 function getMaxDist(b: Branch): number {
     let max = b.distFromRoot + b.length;
     b.entities.forEach(e => max = Math.max(max, e.distFromRoot));
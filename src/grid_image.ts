@@ -1,23 +1,32 @@
 import { createCanvas, loadImage } from '@napi-rs/canvas';
 import { writeFile, readFile } from 'fs/promises';
+import * as path from 'path';
 import {
   SCALE,
-  GRID_CONFIG,
+  TILE_DIMENSIONS,
   detectTreeContentPosition,
   drawIsoBlock,
-  calculateCanvasDimensions,
+  createGridLayout,
   generateGridPositions,
   sortPositionsForRendering,
   calculateTreeDrawPosition,
+  boundingTiles,
+  assertTreesOnTiles,
+  neighbourMaterials,
 } from './core/grid';
-import type { GridPosition } from './core/grid';
+import type { GridLayout, GridPosition, GridTile } from './core/grid';
 import { applyCanvasFilter, type FilterName } from './core/filters';
+import { DEFAULT_GRID_THEME, loadGridThemes } from './core/grid-themes';
+import type { GridTheme } from './types/grid-theme';
 
-export { SCALE, GRID_CONFIG as DEFAULT_CONFIG };
-export type { GridPosition };
+export { SCALE, TILE_DIMENSIONS };
+export type { GridLayout, GridPosition, GridTile };
 
 export interface TreeConfig {
-  imagePath: string;
+  /** Path to a rendered tree PNG on disk. */
+  imagePath?: string;
+  /** Already rendered tree PNG, used instead of `imagePath` when present. */
+  imageBuffer?: Buffer;
   gridX: number;
   gridY: number;
   scale: number;
@@ -31,29 +40,49 @@ const IMAGE_CONFIG = {
 
 export interface GridOptions {
   trees: TreeConfig[];
-  outputFilename: string;
+  /** When omitted the grid is only returned in memory. */
+  outputFilename?: string;
   dataFilename?: string;
   filter?: FilterName;
+  /**
+   * Tiles to draw, in any shape: strips, L-shapes, grids with holes. Every
+   * tree needs a tile other than water and stands on its elevation. Defaults
+   * to the flat grass rectangle from 0,0 spanning the trees.
+   */
+  tiles?: GridTile[];
+  /** Colours and decoration; defaults to frost. */
+  theme?: GridTheme;
 }
 
-export async function generateGrid(options: GridOptions): Promise<Buffer> {
-  const { trees, outputFilename, dataFilename, filter = 'none' } = options;
+export interface GridResult {
+  buffer: Buffer;
+  positions: GridPosition[];
+}
 
-  let maxGridDim = 1;
-  for (const tree of trees) {
-    if (tree.gridX > maxGridDim - 1) maxGridDim = tree.gridX + 1;
-    if (tree.gridY > maxGridDim - 1) maxGridDim = tree.gridY + 1;
+function getTreeSource(tree: TreeConfig): string | Buffer {
+  const source = tree.imageBuffer ?? tree.imagePath;
+  if (!source) {
+    throw new Error(`Tree at ${tree.gridX},${tree.gridY} has neither imagePath nor imageBuffer`);
   }
-  GRID_CONFIG.gridSize = maxGridDim;
+  return source;
+}
+
+export async function generateGrid(options: GridOptions): Promise<GridResult> {
+  const { trees, outputFilename, dataFilename, filter = 'none', theme = DEFAULT_GRID_THEME } = options;
+  const tiles = options.tiles ?? boundingTiles(trees);
+  assertTreesOnTiles(trees, tiles);
 
-  const dimensions = calculateCanvasDimensions(maxGridDim);
-  GRID_CONFIG.canvasWidth = dimensions.width;
-  GRID_CONFIG.canvasHeight = dimensions.height;
+  // Made per render so concurrent grids don't see each other's size
+  const layout = createGridLayout(tiles);
 
-  const canvas = createCanvas(GRID_CONFIG.canvasWidth, GRID_CONFIG.canvasHeight);
+  const canvas = createCanvas(layout.canvasWidth, layout.canvasHeight);
   const ctx = canvas.getContext('2d');
+  if (theme.background) {
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, layout.canvasWidth, layout.canvasHeight);
+  }
 
-  console.log(`Generating ${GRID_CONFIG.gridSize}x${GRID_CONFIG.gridSize} Grid at ${SCALE}x Resolution...`);
+  console.log(`Generating ${tiles.length} tile grid at ${layout.scale}x Resolution (${theme.name} theme)...`);
 
   // Create a map for quick lookup of trees by grid position
   const treeMap = new Map<string, TreeConfig>();
@@ -62,75 +91,106 @@ export async function generateGrid(options: GridOptions): Promise<Buffer> {
   }
 
   // Load all unique tree images and detect content position
-  const loadedTrees = new Map<string, any>();
-  const treeOffsets = new Map<string, { xOffset: number, yPadding: number, contentWidth: number }>();
+  const loadedTrees = new Map<string | Buffer, any>();
+  const treeOffsets = new Map<string | Buffer, { xOffset: number, yPadding: number, contentWidth: number }>();
   for (const tree of trees) {
-    if (!loadedTrees.has(tree.imagePath)) {
+    const source = getTreeSource(tree);
+    if (!loadedTrees.has(source)) {
+      const label = tree.imagePath ?? `buffer at ${tree.gridX},${tree.gridY}`;
       try {
-        const image = await loadImage(tree.imagePath);
-        loadedTrees.set(tree.imagePath, image);
+        const image = await loadImage(source);
+        loadedTrees.set(source, image);
         const offsets = detectTreeContentPosition(image);
-        treeOffsets.set(tree.imagePath, offsets);
-        console.log(`Loaded image: ${tree.imagePath} (xOffset: ${offsets.xOffset.toFixed(1)}px, yPadding: ${offsets.yPadding}px)`);
+        treeOffsets.set(source, offsets);
+        console.log(`Loaded image: ${label} (xOffset: ${offsets.xOffset.toFixed(1)}px, yPadding: ${offsets.yPadding}px)`);
       } catch (e) {
-        console.error(`Could not load image: ${tree.imagePath}`);
+        console.error(`Could not load image: ${label}`);
       }
     }
   }
 
   // Generate all grid positions
-  const positions = generateGridPositions(GRID_CONFIG.gridSize, GRID_CONFIG.canvasWidth);
+  const positions = generateGridPositions(layout, tiles);
   const sortedPositions = sortPositionsForRendering(positions);
+  const neighbours = neighbourMaterials(positions);
+
+  // Trees go on after every tile of their diagonal row, so a raised
+  // neighbour in the same row can't cover a tree's overhang
+  const drawTrees = (row: GridPosition[]) => {
+    for (const pos of row) {
+      const treeConfig = treeMap.get(`${pos.gridX},${pos.gridY}`);
+      const image = treeConfig && loadedTrees.get(getTreeSource(treeConfig));
+      const offsets = treeConfig && treeOffsets.get(getTreeSource(treeConfig));
+      if (image && offsets) {
+        const treeScale = treeConfig.scale || 0.5;
+        const { drawX, drawY, drawWidth, drawHeight } = calculateTreeDrawPosition(
+          pos, image.width, image.height, offsets, treeScale
+        );
+        ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
+      }
+    }
+  };
 
+  let row: GridPosition[] = [];
   for (const pos of sortedPositions) {
+    if (row.length > 0 && row[0]!.gridX + row[0]!.gridY !== pos.gridX + pos.gridY) {
+      drawTrees(row);
+      row = [];
+    }
+    row.push(pos);
+
     const treeConfig = treeMap.get(`${pos.gridX},${pos.gridY}`);
-    const offsets = treeConfig ? treeOffsets.get(treeConfig.imagePath) : undefined;
+    const offsets = treeConfig ? treeOffsets.get(getTreeSource(treeConfig)) : undefined;
     
-    drawIsoBlock(ctx, pos, {
+    drawIsoBlock(ctx, layout, pos, {
       hasShadow: !!treeConfig,
       shadowWidth: offsets ? offsets.contentWidth * (treeConfig?.scale || 0.5) : undefined,
       drawTufts: !treeConfig,
       gridX: pos.gridX,
       gridY: pos.gridY,
+      neighbours: neighbours.get(pos),
+      theme,
     });
-
-    if (treeConfig) {
-      const image = loadedTrees.get(treeConfig.imagePath);
-      if (image && offsets) {
-        const treeScale = treeConfig.scale || 0.5;
-        const { drawX, drawY, drawWidth, drawHeight } = calculateTreeDrawPosition(
-          pos, image.width, image.height, offsets, treeScale
-        );
-        ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
-      }
-    }
   }
+  drawTrees(row);
 
   // Apply filter if specified
   if (filter && filter !== 'none') {
     console.log(`Applying '${filter}' filter...`);
-    applyCanvasFilter(ctx, GRID_CONFIG.canvasWidth, GRID_CONFIG.canvasHeight, filter);
+    applyCanvasFilter(ctx, layout.canvasWidth, layout.canvasHeight, filter);
   }
 
   const buffer = await canvas.encode('png');
-  await writeFile(outputFilename, buffer);
+  if (outputFilename) {
+    await writeFile(outputFilename, buffer);
+  }
   
   if (dataFilename) {
     await writeFile(dataFilename, JSON.stringify(positions, null, 2));
     console.log(`✅ Positions saved: ${dataFilename}`);
   }
 
-  console.log(`✅ HD Grid generated: ${outputFilename} (${GRID_CONFIG.canvasWidth}x${GRID_CONFIG.canvasHeight})`);
-  return buffer;
+  console.log(`✅ HD Grid generated: ${outputFilename ?? 'in memory'} (${layout.canvasWidth}x${layout.canvasHeight})`);
+  return { buffer, positions };
 }
 
 async function main() {
   console.log("Reading configuration files...");
   let treePlacements: TreeConfig[] = [];
+  let tiles: GridTile[] | undefined;
+  let theme: GridTheme | undefined;
   try {
     const treeConfigFile = await readFile(IMAGE_CONFIG.treeConfigFilename, 'utf-8');
     const treeConfigData = JSON.parse(treeConfigFile);
     treePlacements = treeConfigData.trees;
+    tiles = treeConfigData.tiles;
+    if (treeConfigData.theme) {
+      const themes = await loadGridThemes(process.env.GRID_THEME_DIR || path.join(__dirname, '..', 'themes'));
+      theme = themes.get(treeConfigData.theme);
+      if (!theme) {
+        throw new Error(`Unknown grid theme: ${treeConfigData.theme}`);
+      }
+    }
   } catch (error) {
     console.error(`Error reading or parsing configuration files:`, error);
     return;
@@ -140,7 +200,9 @@ async function main() {
     trees: treePlacements,
     outputFilename: IMAGE_CONFIG.filename,
     dataFilename: IMAGE_CONFIG.dataFilename,
-    filter: 'winter'
+    filter: 'winter',
+    tiles,
+    theme
   });
 }
 
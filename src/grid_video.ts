@@ -1,126 +1,277 @@
-import { createCanvas, loadImage } from '@napi-rs/canvas';
-import { writeFile, unlink } from 'fs/promises';
-import { spawn, type ChildProcess } from 'child_process';
-import { existsSync } from 'fs';
+import { createCanvas, loadImage, type Canvas, type Image } from '@napi-rs/canvas';
+import { spawn } from 'child_process';
 import {
   SCALE,
-  GRID_CONFIG,
+  TILE_DIMENSIONS,
   detectTreeContentPosition,
   drawIsoBlock,
-  calculateCanvasDimensions,
+  createGridLayout,
   calculateTreeDrawPosition,
+  generateGridPositions,
+  sortPositionsForRendering,
+  boundingTiles,
+  assertTreesOnTiles,
+  neighbourMaterials,
+  drawWaterRipple,
+  planTileLayers,
 } from './core/grid';
-import type { GridPosition } from './core/grid';
+import type { GridPosition, GridTile } from './core/grid';
+import { getFilter, type FilterName } from './core/filters';
+import { DEFAULT_GRID_THEME } from './core/grid-themes';
+import type { GridTheme } from './types/grid-theme';
+import { VideoFrameReader, waitForExit, writeFrame } from './core/ffmpeg-pipe';
 
 // Re-export for backwards compatibility
-export { SCALE, GRID_CONFIG as DEFAULT_CONFIG };
+export { SCALE, TILE_DIMENSIONS };
 export type { GridPosition };
 
 const VIDEO_CONFIG = {
   fps: 25,
+  // One ripple cycle on water tiles
+  rippleSeconds: 3,
 };
 
-function spawnFFmpeg(args: string[]): Promise<void> {
-  return new Promise((resolve, reject) => {
-    console.log(`Running: ffmpeg ${args.join(' ')}`);
-    const proc: ChildProcess = spawn('ffmpeg', args);
-    
-    proc.on('close', (code: number | null) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`FFmpeg exited with code ${code}`));
-      }
-    });
-    
-    proc.on('error', (err: Error) => {
-      reject(err);
-    });
-  });
+export interface VideoTreeConfig {
+  /** Rendered still of the grown tree, used to anchor it on its tile. */
+  imagePath: string;
+  /** Growth video with alpha; when omitted the still is shown for the whole video. */
+  videoPath?: string;
+  /** Seconds into the grid video at which this tree's video starts playing. */
+  startOffset?: number;
+  gridX: number;
+  gridY: number;
+  scale: number;
 }
 
-export async function generateGridVideo(
-  treePngPath: string,
-  treeWebmPath: string,
-  outputPath: string,
-  treeScale: number = 1
-): Promise<void> {
-  console.log('Loading tree image for anchor calculation...');
-  const anchorImage = await loadImage(treePngPath);
-  const offsets = detectTreeContentPosition(anchorImage);
-  console.log(`Detected offsets - xOffset: ${offsets.xOffset.toFixed(1)}px, yPadding: ${offsets.yPadding}px, contentWidth: ${offsets.contentWidth}px`);
-
-  // Calculate canvas size for single tile using shared function
-  const dimensions = calculateCanvasDimensions(1);
-  GRID_CONFIG.gridSize = 1;
-  GRID_CONFIG.canvasWidth = dimensions.width;
-  GRID_CONFIG.canvasHeight = dimensions.height;
-
-  const startX = GRID_CONFIG.canvasWidth / 2;
-  const startY = 150 * SCALE;
-
-  // Single tile position
-  const pos: GridPosition = {
-    gridX: 0,
-    gridY: 0,
-    pixelX: Math.round(startX),
-    pixelY: Math.round(startY + GRID_CONFIG.tileWidth / 4)
-  };
-
-  // Calculate tree placement using shared function
-  const { drawX: treeX, drawY: treeY, drawWidth, drawHeight } = calculateTreeDrawPosition(
-    pos, anchorImage.width, anchorImage.height, offsets, treeScale
-  );
-  const shadowWidth = offsets.contentWidth * treeScale;
-
-  console.log('Generating base grid image...');
-  const canvas = createCanvas(GRID_CONFIG.canvasWidth, GRID_CONFIG.canvasHeight);
+export interface GridVideoOptions {
+  trees: VideoTreeConfig[];
+  outputPath: string;
+  filter?: FilterName;
+  /** Defaults to running until the last tree video finishes. */
+  durationSeconds?: number;
+  /** Tiles to draw, see GridOptions.tiles */
+  tiles?: GridTile[];
+  /** Defaults to frost; videos have no alpha, so a theme without a background gets white. */
+  theme?: GridTheme;
+}
+
+interface TreeLayer {
+  tree: VideoTreeConfig;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  still?: Image;
+  /** Video trees only: latest decoded frame, kept on screen after the video ends */
+  frame?: Canvas;
+  startFrame: number;
+  reader?: VideoFrameReader;
+  started: boolean;
+  ended: boolean;
+}
+
+/**
+ * Composites many trees onto one isometric grid video, mirroring
+ * `generateGrid`. Every frame is drawn on a canvas in-process: tiles and
+ * trees are layered back to front, tiles pre-drawn in as few cropped
+ * layers as the trees and water between them allow, tree videos
+ * are decoded frame by frame through pipes and the result is piped to the
+ * encoder. Nothing is written besides `outputPath` and nothing shared is
+ * changed, so several grids, in any themes, can render at once.
+ */
+export async function generateGridVideos(options: GridVideoOptions): Promise<void> {
+  const { trees, outputPath, filter = 'none', theme = DEFAULT_GRID_THEME } = options;
+  if (trees.length === 0) {
+    throw new Error('Grid video needs at least one tree');
+  }
+
+  const tiles = options.tiles ?? boundingTiles(trees);
+  assertTreesOnTiles(trees, tiles);
+  const layout = createGridLayout(tiles);
+  const { canvasWidth: width, canvasHeight: height } = layout;
+
+  const treeMap = new Map<string, VideoTreeConfig>();
+  for (const tree of trees) {
+    treeMap.set(`${tree.gridX},${tree.gridY}`, tree);
+  }
+
+  // Anchor every tree from its still, once per unique image
+  const stills = new Map<string, { image: Image, offsets: ReturnType<typeof detectTreeContentPosition> }>();
+  for (const tree of trees) {
+    if (!stills.has(tree.imagePath)) {
+      const image = await loadImage(tree.imagePath);
+      stills.set(tree.imagePath, { image, offsets: detectTreeContentPosition(image) });
+    }
+  }
+
+  // Rows without trees or water share one cropped canvas; a new one starts
+  // after each row whose ripples and trees are drawn every frame, so they
+  // stay behind the rows in front of them
+  const positions = sortPositionsForRendering(generateGridPositions(layout, tiles));
+  const neighbours = neighbourMaterials(positions);
+  const animatedRows = new Set(positions
+    .filter(pos => pos.material === 'water' || treeMap.has(`${pos.gridX},${pos.gridY}`))
+    .map(pos => pos.gridX + pos.gridY));
+  const tileLayers = planTileLayers(layout, positions, depth => animatedRows.has(depth));
+
+  const stack: { tiles: Canvas, x: number, y: number, water: GridPosition[], trees: TreeLayer[] }[] = [];
+  const layers: TreeLayer[] = [];
+  for (const tileLayer of tileLayers) {
+    const tilesCanvas = createCanvas(tileLayer.width, tileLayer.height);
+    const tilesCtx = tilesCanvas.getContext('2d');
+    tilesCtx.translate(-tileLayer.x, -tileLayer.y);
+    const entry = { tiles: tilesCanvas, x: tileLayer.x, y: tileLayer.y, water: [] as GridPosition[], trees: [] as TreeLayer[] };
+    stack.push(entry);
+
+    for (const pos of tileLayer.positions) {
+      if (pos.material === 'water') {
+        entry.water.push(pos);
+      }
+
+      const tree = treeMap.get(`${pos.gridX},${pos.gridY}`);
+      const still = tree ? stills.get(tree.imagePath) : undefined;
+      drawIsoBlock(tilesCtx, layout, pos, {
+        hasShadow: !!tree,
+        shadowWidth: tree && still ? still.offsets.contentWidth * tree.scale : undefined,
+        drawTufts: !tree && pos.material !== 'water',
+        gridX: pos.gridX,
+        gridY: pos.gridY,
+        neighbours: neighbours.get(pos),
+        theme,
+      });
+
+      if (tree && still) {
+        const { drawX, drawY, drawWidth, drawHeight } = calculateTreeDrawPosition(
+          pos, still.image.width, still.image.height, still.offsets, tree.scale
+        );
+        const layer: TreeLayer = {
+          tree,
+          x: Math.round(drawX),
+          y: Math.round(drawY),
+          width: Math.max(1, Math.round(drawWidth)),
+          height: Math.max(1, Math.round(drawHeight)),
+          still: tree.videoPath ? undefined : still.image,
+          startFrame: Math.round((tree.startOffset ?? 0) * VIDEO_CONFIG.fps),
+          started: false,
+          ended: !tree.videoPath,
+        };
+        entry.trees.push(layer);
+        layers.push(layer);
+      }
+    }
+  }
+
+  const videoLayers = layers.filter(layer => layer.tree.videoPath);
+  const maxFrames = options.durationSeconds !== undefined
+    ? Math.max(1, Math.round(options.durationSeconds * VIDEO_CONFIG.fps))
+    : undefined;
+
+  const canvas = createCanvas(width, height);
   const ctx = canvas.getContext('2d');
-  
-  // Draw the grid tile with shadow
-  drawIsoBlock(ctx, pos, { hasShadow: true, shadowWidth });
-  
-  const baseGridPath = 'temp_base_grid.png';
-  const buffer = await canvas.encode('png');
-  await writeFile(baseGridPath, buffer);
-  console.log(`✅ Base grid saved: ${baseGridPath}`);
-
-  console.log('Compositing video with ffmpeg...');
-  
-  // FFmpeg command to overlay tree video on base grid
-  const ffmpegArgs = [
-    '-loop', '1',                 // Loop the base grid image
-    '-i', baseGridPath,           // Base grid image
-    '-c:v', 'libvpx-vp9',         // Decode with VP9
-    '-i', treeWebmPath,           // Tree video (transparent)
-    '-filter_complex',
-    `color=c=#FFFFFF:s=${GRID_CONFIG.canvasWidth}x${GRID_CONFIG.canvasHeight}:r=${VIDEO_CONFIG.fps}[bg];` +
-    `[1:v]scale=${Math.round(drawWidth)}:${Math.round(drawHeight)}:flags=lanczos,format=yuva420p[scaled];` +
-    `[0:v]format=yuva420p[base];` +
-    `[bg][base]overlay=0:0:shortest=1[withgrid];` +
-    `[withgrid][scaled]overlay=${Math.round(treeX)}:${Math.round(treeY)}:shortest=1[out]`,
-    '-map', '[out]',
+
+  const ffmpegFilter = getFilter(filter).ffmpegFilter;
+  const encoderArgs = [
+    '-y',
+    '-f', 'rawvideo',
+    '-pix_fmt', 'rgba',
+    '-s', `${width}x${height}`,
+    '-r', String(VIDEO_CONFIG.fps),
+    '-i', '-',
+    ...(ffmpegFilter ? ['-vf', ffmpegFilter] : []),
     '-c:v', 'libvpx-vp9',         // VP9 codec for webm
     '-b:v', '0',                  // Variable bitrate mode
     '-crf', '30',                 // Quality (lower = better)
     '-deadline', 'realtime',      // Fastest encoding
     '-cpu-used', '8',             // Max speed (0-8, higher = faster)
     '-row-mt', '1',               // Enable row-based multithreading
-    '-r', String(VIDEO_CONFIG.fps),
     '-pix_fmt', 'yuv420p',        // Pixel format without transparency
-    '-y',                         // Overwrite output
     outputPath
   ];
 
-  await spawnFFmpeg(ffmpegArgs);
-  
-  // Cleanup temp file
-  if (existsSync(baseGridPath)) {
-    await unlink(baseGridPath);
-    console.log('Cleaned up temp files');
+  console.log(`Compositing ${trees.length} trees on ${tiles.length} tiles (${width}x${height})...`);
+  const encoder = spawn('ffmpeg', encoderArgs);
+  const finished = waitForExit(encoder);
+  let pipeError: Error | undefined;
+  encoder.stdin.on('error', (err: Error) => { pipeError = err; });
+
+  let frameCount = 0;
+  try {
+    for (let index = 0; maxFrames === undefined || index < maxFrames; index++) {
+      if (pipeError) throw pipeError;
+
+      let advanced = false;
+      for (const layer of videoLayers) {
+        if (layer.ended || index < layer.startFrame) continue;
+        if (!layer.started) {
+          // Decoders start lazily so late trees don't hold buffered frames
+          layer.reader = new VideoFrameReader(layer.tree.videoPath!, layer.width, layer.height, VIDEO_CONFIG.fps);
+          layer.frame = createCanvas(layer.width, layer.height);
+          layer.started = true;
+        }
+        const frame = await layer.reader!.next();
+        if (!frame) {
+          layer.ended = true;
+          continue;
+        }
+        const frameCtx = layer.frame!.getContext('2d');
+        const imageData = frameCtx.createImageData(layer.width, layer.height);
+        imageData.data.set(frame);
+        frameCtx.putImageData(imageData, 0, 0);
+        advanced = true;
+      }
+
+      // Without a fixed duration, stop once the last video has run out
+      const pending = videoLayers.some(layer => !layer.ended);
+      if (maxFrames === undefined && index > 0 && !advanced && !pending) break;
+
+      ctx.fillStyle = theme.background ?? '#FFFFFF';
+      ctx.fillRect(0, 0, width, height);
+      for (const row of stack) {
+        ctx.drawImage(row.tiles, row.x, row.y);
+        for (const pos of row.water) {
+          drawWaterRipple(ctx, layout, pos, (index / VIDEO_CONFIG.fps / VIDEO_CONFIG.rippleSeconds + (pos.gridX + pos.gridY) * 0.17) % 1, theme);
+        }
+        for (const layer of row.trees) {
+          const image = layer.still ?? (layer.started ? layer.frame : undefined);
+          if (image) {
+            ctx.drawImage(image, layer.x, layer.y, layer.width, layer.height);
+          }
+        }
+      }
+
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+      await writeFrame(encoder, Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength));
+      frameCount++;
+    }
+    encoder.stdin.end();
+  } catch (err) {
+    encoder.kill('SIGKILL');
+    await finished.catch(() => undefined);
+    throw err;
+  } finally {
+    videoLayers.forEach(layer => layer.reader?.close());
   }
 
-  console.log(`✅ Video generated: ${outputPath}`);
+  await finished;
+
+  console.log(`✅ Grid video generated: ${outputPath} (${width}x${height}, ${(frameCount / VIDEO_CONFIG.fps).toFixed(1)}s)`);
+}
+
+/**
+ * Single tree on a single tile.
+ */
+export async function generateGridVideo(
+  treePngPath: string,
+  treeWebmPath: string,
+  outputPath: string,
+  treeScale: number = 1,
+  filter: FilterName = 'none'
+): Promise<void> {
+  await generateGridVideos({
+    trees: [{ imagePath: treePngPath, videoPath: treeWebmPath, gridX: 0, gridY: 0, scale: treeScale }],
+    outputPath,
+    filter,
+  });
 }
 
 async function main() {
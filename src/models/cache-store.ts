@@ -0,0 +1,5 @@
+export interface CacheStore {
+    get(key: string): Promise<Buffer | undefined>;
+    set(key: string, data: Buffer): Promise<void>;
+    delete(key: string): Promise<void>;
+}
@@ -0,0 +1,13 @@
+import type { CanvasRenderingContext2D } from "canvas";
+
+/**
+ * The part of the canvas API that entities draw with. Canvas contexts
+ * satisfy it as they are; other render targets, like SVG, only need to
+ * implement this much.
+ */
+export type DrawingContext = Pick<CanvasRenderingContext2D,
+    | 'save' | 'restore' | 'translate' | 'rotate' | 'scale'
+    | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'bezierCurveTo' | 'arc' | 'ellipse'
+    | 'fill' | 'stroke' | 'drawImage' | 'createLinearGradient' | 'createRadialGradient'
+    | 'fillStyle' | 'strokeStyle' | 'lineWidth' | 'lineCap' | 'lineJoin' | 'globalAlpha'
+>;
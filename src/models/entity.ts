@@ -8,5 +8,7 @@ export interface Entity {
     variants: number;
     basePrice: number;
     generate: Generate;
+    /** Params a plugin manifest built `generate` with; they pick the output as much as the seed does */
+    generatorParams?: Record<string, unknown>;
     isGrowable: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import type { Readable } from "stream";
+
+/**
+ * Turns a sequence of PNG frames into one output file or stream.
+ */
+export interface FrameEncoder {
+    /** The ffmpeg process, for encoders that run one */
+    readonly process?: ChildProcessWithoutNullStreams;
+    /** Encoded bytes; stays empty when the config saves to a file */
+    readonly output: Readable;
+    writeFrame(png: Buffer): Promise<void>;
+    /** Flushes the last frames and resolves once the output is complete */
+    finish(): Promise<void>;
+    abort(): Promise<void>;
+}
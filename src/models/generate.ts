@@ -2,8 +2,17 @@ import type { Context } from "baojs";
 import type { Config } from "../types/config";
 import type { GeneratorResult } from "../types/generator-result";
 import type { ChildProcessWithoutNullStreams } from "child_process";
+import type { Readable } from "stream";
 
 export interface Generate {
-    generate(ctx:Context,onStream?:(process:ChildProcessWithoutNullStreams,videoStream:ChildProcessWithoutNullStreams['stdout']) => void, CONFIG?: Config): Promise<GeneratorResult>;
+    /**
+     * Versions of the algorithm this generator can still render, oldest first.
+     * A version pins what every seed grows into; changes that alter existing
+     * seeds go in a new version so purchased plants keep their look.
+     */
+    readonly versions: readonly number[];
+    /** Whether `animation: 'idle'` sways the grown plant; offered by the catalog and checked by /video */
+    readonly supportsIdle: boolean;
+    generate(ctx:Context,onStream?:(process:ChildProcessWithoutNullStreams | undefined,videoStream:Readable) => void, CONFIG?: Config): Promise<GeneratorResult>;
     getInfo(Config?: Config): Promise<GeneratorResult>;
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { afterAll, describe, expect, spyOn, test } from 'bun:test';
+import { app } from './server';
+import { entities } from './entities';
+import { variantSeed } from './core/variants';
+import { QueueFullError, RenderQueue } from './core/render-queue';
+
+const server = app.listen({ port: 38417, hostname: '127.0.0.1' });
+
+// baojs pulls in an older Response declaration without status or json()
+async function request(route: string, init?: { method: string; body: string }): Promise<{ status: number; headers: Headers; body: any }> {
+    const response = await fetch(`http://127.0.0.1:${server.port}${route}`, init) as unknown as { status: number; headers: Headers; text(): Promise<string> };
+    const text = await response.text();
+    const json = response.headers.get('content-type')?.includes('application/json');
+    return { status: response.status, headers: response.headers, body: json ? JSON.parse(text) : text };
+}
+
+afterAll(() => {
+    server.stop(true);
+});
+
+describe('entity catalog routes', () => {
+    test('GET /entities lists every entity with a preview per variant', async () => {
+        const response = await request('/entities');
+        expect(response.status).toBe(200);
+        const body = response.body as { entities: { id: string; variants: number; previews: { seed: string }[] }[]; count: number };
+        expect(body.count).toBe(entities.size);
+        expect(body.entities.map(entry => entry.id).join(',')).toBe(Array.from(entities.keys()).join(','));
+        for (const entry of body.entities) {
+            expect(entry.previews.map(preview => preview.seed).join(','))
+                .toBe(Array.from({ length: entry.variants }, (_, index) => variantSeed(index)).join(','));
+        }
+    });
+
+    test('GET /entities/:id describes one entity', async () => {
+        const response = await request('/entities/tree');
+        expect(response.status).toBe(200);
+        const entry = response.body as { id: string; formats: { image: string[] }; previews: { image: string }[] };
+        expect(entry.id).toBe('tree');
+        expect(entry.formats.image.join(',')).toBe('png,svg');
+        expect(entry.previews[1]!.image).toBe('/image?type=tree&seed=00001');
+    });
+
+    test('offers idle loops only where the generator sways', async () => {
+        const drawn = await request('/entities/lavender');
+        expect(drawn.body.modes).toEqual(['growth', 'idle']);
+        const artwork = await request('/entities/lit_tree');
+        expect(artwork.body.modes).toEqual(['growth']);
+
+        const rejected = await request('/video?type=lit_tree&mode=idle');
+        expect(rejected.status).toBe(400);
+        expect(rejected.body.details.map((detail: { field: string }) => detail.field)).toEqual(['mode']);
+    });
+
+    test('GET /entities/:id answers 404 for an unknown id', async () => {
+        const response = await request('/entities/no_such_plant');
+        expect(response.status).toBe(404);
+        expect(response.body.error).toBe('Entity not found');
+    });
+
+    test('answers 404 as JSON for an unknown generator type', async () => {
+        for (const route of ['/image?type=no_such_plant', '/video?type=no_such_plant', '/treeInfo?type=no_such_plant']) {
+            const response = await request(route);
+            expect(response.status).toBe(404);
+            expect(response.body).toEqual({ error: 'Generator not found' });
+        }
+    });
+});
+
+function postGrid(body: unknown) {
+    return request('/grid', { method: 'POST', body: JSON.stringify(body) });
+}
+
+const fields = (body: { details: { field: string }[] }) => body.details.map(detail => detail.field);
+
+describe('request validation', () => {
+    test('answers 400 with every invalid field as JSON', async () => {
+        const response = await request('/image?type=tree&width=5000&filter=neon');
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid request');
+        expect(fields(response.body)).toEqual(['filter', 'width']);
+        expect(response.body.details[1].message).toBe('width must be an integer from 16 to 4096');
+    });
+
+    test('rejects versions the generator does not have', async () => {
+        const response = await request('/video?type=tree&version=99');
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['version']);
+    });
+
+    test('rejects seasons an SVG would ignore', async () => {
+        const response = await request('/image?type=cedar&format=svg&season=winter');
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['season']);
+    });
+});
+
+describe('POST /grid validation', () => {
+    const tree = { type: 'tree', seed: 'grid', gridX: 0, gridY: 0, scale: 0.5 };
+
+    test('rejects a body without trees', async () => {
+        const response = await postGrid({ trees: [] });
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['trees']);
+    });
+
+    test('reports every invalid placement', async () => {
+        const response = await postGrid({
+            trees: [
+                { ...tree, type: 'no_such_plant' },
+                { ...tree, gridX: 64 },
+                { ...tree, gridY: 1, scale: 0 },
+                { ...tree, gridY: 2, version: 99 },
+            ],
+        });
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['trees[0].type', 'trees[1].gridX', 'trees[2].scale', 'trees[3].version']);
+    });
+
+    test('rejects two trees on one tile', async () => {
+        const response = await postGrid({ trees: [tree, { ...tree, seed: 'other' }] });
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['trees[1]']);
+    });
+
+    test('rejects local artwork', async () => {
+        const response = await postGrid({ trees: [{ ...tree, type: 'lit_tree' }] });
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['trees[0].type']);
+    });
+
+    test('rejects trees without a tile', async () => {
+        const response = await postGrid({ trees: [{ ...tree, gridX: 3 }], tiles: [{ gridX: 0, gridY: 0 }] });
+        expect(response.status).toBe(400);
+        expect(fields(response.body)).toEqual(['trees']);
+    });
+});
+
+describe('full render queue', () => {
+    // Unseeded renders skip the cache, so every one of them reaches the queue
+    for (const route of ['/image?type=tree', '/video?type=tree']) {
+        test(`${route} answers 503 with Retry-After`, async () => {
+            const run = spyOn(RenderQueue.prototype, 'run').mockRejectedValue(new QueueFullError(7));
+            try {
+                const response = await request(route);
+                expect(response.status).toBe(503);
+                expect(response.headers.get('retry-after')).toBe('7');
+                expect(response.body).toEqual({ error: 'Server busy', retryAfterSeconds: 7 });
+            } finally {
+                run.mockRestore();
+            }
+        });
+    }
+});
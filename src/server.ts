@@ -1,71 +1,443 @@
 import Bao, { Context } from "baojs";
 import { randomBytes } from "crypto";
+import * as path from "path";
 import { DEFAULT_CONFIG, type Config } from "./types/config";
 import { entities } from "./entities";
+import { generateGrid, type GridResult, type TreeConfig } from "./grid_image";
+import type { FilterName } from "./core/filters";
+import { assertTreesOnTiles, boundingTiles, createGridLayout, type GridTile } from "./core/grid";
+import { loadGridThemes, TILE_MATERIALS } from "./core/grid-themes";
+import type { TileMaterial } from "./types/grid-theme";
+import { LocalDirectoryStore, RenderCache, renderCacheKey } from "./core/render-cache";
+import { encoderProfile, VIDEO_FORMATS } from "./core/encoders";
+import type { Season } from "./types/season";
+import type { GeneratorResult } from "./types/generator-result";
+import { SceneGenerator } from "./core/renderer";
+import { resolveVersion } from "./core/versions";
+import type { Generate } from "./models/generate";
+import { describeCatalog, describeEntity } from "./core/catalog";
+import { QueueFullError, RENDER_PRIORITY, RenderQueue } from "./core/render-queue";
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import type { Readable } from "stream";
+import { applyRenderOptions, enumField, parseQuery, RENDER_FIELDS, stringField, type QueryError } from "./core/query-schema";
 
-const app = new Bao();
+type GridPlacement = {
+    type: string;
+    seed: string;
+    gridX: number;
+    gridY: number;
+    scale: number;
+    /** Resolved generator version, so the cache key and response always name one */
+    version: number;
+};
+
+const renderCache = new RenderCache(new LocalDirectoryStore(
+    process.env.RENDER_CACHE_DIR || "cache/render",
+    Number(process.env.RENDER_CACHE_MAX_BYTES) || 1024 * 1024 * 1024
+));
+
+// Renders at once; the rest wait in the queue, stills ahead of videos
+const renderQueue = new RenderQueue(
+    Number(process.env.RENDER_CONCURRENCY) || 2,
+    Number(process.env.RENDER_QUEUE_MAX) || 16
+);
+
+const gridThemes = await loadGridThemes(process.env.GRID_THEME_DIR || path.join(__dirname, "..", "themes"));
+
+function sendBusy(ctx: Context, retryAfterSeconds: number) {
+    return ctx.sendJson(
+        { error: "Server busy", retryAfterSeconds },
+        { status: 503, headers: { "Retry-After": String(retryAfterSeconds) } }
+    );
+}
+
+function isNotModified(ctx: Context, etag: string): boolean {
+    const header = ctx.req.headers.get("if-none-match");
+    if (!header) return false;
+    return header.split(",").some(tag => {
+        const value = tag.trim();
+        return value === "*" || value === etag || value === `W/${etag}`;
+    });
+}
+
+const IDLE_LOOP_SECONDS = 8;
+
+const TYPE_FIELD = stringField(64);
+
+const IMAGE_QUERY = {
+    type: TYPE_FIELD,
+    seed: RENDER_FIELDS.seed,
+    version: RENDER_FIELDS.version,
+    season: RENDER_FIELDS.season,
+    filter: RENDER_FIELDS.filter,
+    width: RENDER_FIELDS.width,
+    height: RENDER_FIELDS.height,
+    padding: RENDER_FIELDS.padding,
+    progress: RENDER_FIELDS.progress,
+    format: enumField(["png", "svg"] as const),
+};
+
+const VIDEO_QUERY = {
+    type: TYPE_FIELD,
+    seed: RENDER_FIELDS.seed,
+    version: RENDER_FIELDS.version,
+    season: RENDER_FIELDS.season,
+    filter: RENDER_FIELDS.filter,
+    width: RENDER_FIELDS.width,
+    height: RENDER_FIELDS.height,
+    padding: RENDER_FIELDS.padding,
+    fps: RENDER_FIELDS.fps,
+    duration: RENDER_FIELDS.duration,
+    mode: enumField(["growth", "idle"] as const),
+    format: enumField(VIDEO_FORMATS),
+};
+
+const TREE_INFO_QUERY = {
+    type: TYPE_FIELD,
+    seed: RENDER_FIELDS.seed,
+    version: RENDER_FIELDS.version,
+    season: RENDER_FIELDS.season,
+    width: RENDER_FIELDS.width,
+    height: RENDER_FIELDS.height,
+    padding: RENDER_FIELDS.padding,
+    duration: RENDER_FIELDS.duration,
+};
+
+function sendInvalid(ctx: Context, errors: QueryError[]) {
+    return ctx.sendJson({ error: "Invalid request", details: errors }, { status: 400, headers: {} });
+}
+
+/**
+ * Resolves the requested version against the generator, so cache keys and
+ * responses always name a concrete version even when the latest one is implied.
+ */
+function resolveRequestedVersion(generate: Generate, requested?: number): number | QueryError {
+    try {
+        return resolveVersion(generate, requested);
+    } catch (err) {
+        return { field: "version", message: err instanceof Error ? err.message : String(err) };
+    }
+}
+
+// Largest tile coordinate /grid accepts, and the largest canvas it renders
+const MAX_GRID_COORD = 64;
+const MAX_GRID_PIXELS = 64_000_000;
+const MAX_GRID_ELEVATION = 16;
+
+function parseGridCoordinate(value: unknown, field: string): QueryError | undefined {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value >= MAX_GRID_COORD) {
+        return { field, message: `${field} must be an integer from 0 to ${MAX_GRID_COORD - 1}` };
+    }
+    return undefined;
+}
+
+/**
+ * Returns the tile, or what is wrong with it. `seen` collects the
+ * coordinates of the tiles before it, which may not repeat.
+ */
+function parseTile(raw: unknown, index: number, seen: Set<string>): GridTile | QueryError {
+    const field = `tiles[${index}]`;
+    if (typeof raw !== "object" || raw === null) {
+        return { field, message: `${field} must be an object` };
+    }
+    const { gridX, gridY, elevation = 0, material = "grass" } = raw as Record<string, unknown>;
+    const error = parseGridCoordinate(gridX, `${field}.gridX`) ?? parseGridCoordinate(gridY, `${field}.gridY`);
+    if (error) {
+        return error;
+    }
+    const key = `${gridX},${gridY}`;
+    if (seen.has(key)) {
+        return { field, message: `${field} repeats the tile at gridX ${gridX}, gridY ${gridY}` };
+    }
+    seen.add(key);
+    if (typeof elevation !== "number" || !Number.isInteger(elevation) || elevation < 0 || elevation > MAX_GRID_ELEVATION) {
+        return { field: `${field}.elevation`, message: `${field}.elevation must be an integer from 0 to ${MAX_GRID_ELEVATION}` };
+    }
+    if (!TILE_MATERIALS.includes(material as TileMaterial)) {
+        return { field: `${field}.material`, message: `${field}.material must be one of ${TILE_MATERIALS.join(", ")}` };
+    }
+    return { gridX: gridX as number, gridY: gridY as number, elevation, material: material as TileMaterial };
+}
+
+/**
+ * Returns the placement, or what is wrong with it. `seen` collects the
+ * coordinates of the trees before it, which may not repeat.
+ */
+function parsePlacement(raw: unknown, index: number, seen: Set<string>): GridPlacement | QueryError {
+    const field = `trees[${index}]`;
+    if (typeof raw !== "object" || raw === null) {
+        return { field, message: `${field} must be an object` };
+    }
+    const { type, seed, gridX, gridY, scale, version } = raw as Record<string, unknown>;
+    if (typeof type !== "string" || type === "") {
+        return { field: `${field}.type`, message: `${field}.type must be a non-empty string` };
+    }
+    if (!entities.has(type)) {
+        return { field: `${field}.type`, message: `${field}.type must be one of ${Array.from(entities.keys()).join(", ")}` };
+    }
+    // Grid tiles are composited from rendered stills, which local artwork can't provide
+    if (!(entities.get(type)!.generate instanceof SceneGenerator)) {
+        return { field: `${field}.type`, message: `${field}.type ${type} is not supported; local artwork can't be placed on a grid` };
+    }
+    if (typeof seed !== "string" || seed === "") {
+        return { field: `${field}.seed`, message: `${field}.seed must be a non-empty string` };
+    }
+    if (RENDER_FIELDS.seed.parse(seed) === undefined) {
+        return { field: `${field}.seed`, message: `${field}.seed must be ${RENDER_FIELDS.seed.expected}` };
+    }
+    const coordinateError = parseGridCoordinate(gridX, `${field}.gridX`) ?? parseGridCoordinate(gridY, `${field}.gridY`);
+    if (coordinateError) {
+        return coordinateError;
+    }
+    const key = `${gridX},${gridY}`;
+    if (seen.has(key)) {
+        return { field, message: `${field} repeats the tree at gridX ${gridX}, gridY ${gridY}` };
+    }
+    seen.add(key);
+    if (typeof scale !== "number" || !Number.isFinite(scale) || scale <= 0) {
+        return { field: `${field}.scale`, message: `${field}.scale must be a positive number` };
+    }
+    if (version !== undefined && (typeof version !== "number" || !Number.isInteger(version) || version < 1)) {
+        return { field: `${field}.version`, message: `${field}.version must be ${RENDER_FIELDS.version.expected}` };
+    }
+    const resolved = resolveRequestedVersion(entities.get(type)!.generate, version);
+    if (typeof resolved !== "number") {
+        return { field: `${field}.version`, message: resolved.message };
+    }
+    return { type, seed, gridX: gridX as number, gridY: gridY as number, scale, version: resolved };
+}
+
+export const app = new Bao();
+
+// Bao swaps every 404 for its own text page; keep the JSON ones routes answer with
+app.notFoundHandler = (ctx) => ctx.res ?? new Response(JSON.stringify({ error: "Not found" }), {
+    status: 404,
+    headers: { "Content-Type": "application/json" },
+});
 
 app.get("/", (ctx) => {
   return ctx.sendText("Am i alive?");
 });
 
 
+app.get("/metrics", (ctx) => {
+    return ctx.sendJson({ renderQueue: renderQueue.metrics() });
+});
+
+app.get("/entities", (ctx) => {
+    return ctx.sendJson(describeCatalog(entities));
+});
+
+app.get("/entities/:id", (ctx) => {
+    const entity = entities.get(ctx.params.id!);
+    if (!entity) {
+        return ctx.sendJson({ error: "Entity not found" }, { status: 404, headers: {} });
+    }
+    return ctx.sendJson(describeEntity(ctx.params.id!, entity));
+});
+
 app.get("/image", async (ctx) => {
     const url = new URL(ctx.req.url);
+    const query = parseQuery(IMAGE_QUERY, url.searchParams);
+    if (Array.isArray(query)) {
+        return sendInvalid(ctx, query);
+    }
+    const imageFormat = query.format ?? "png";
+    const type = query.type ?? "tree";
+    const generator = entities.get(type);
+    if (!generator) {
+        return ctx.sendJson({ error: "Generator not found" }, { status: 404, headers: {} });
+    }
+    const version = resolveRequestedVersion(generator.generate, query.version);
+    if (typeof version !== "number") {
+        return sendInvalid(ctx, [version]);
+    }
+    if (!(generator.generate instanceof SceneGenerator)) {
+        const errors: QueryError[] = [];
+        if (imageFormat === "svg") errors.push({ field: "format", message: `format=svg is not supported for ${type}; local artwork can't be exported as vectors` });
+        if (query.filter) errors.push({ field: "filter", message: `filter is not supported for ${type}; local artwork is pre-rendered` });
+        if (query.season) errors.push({ field: "season", message: `season is not supported for ${type}; local artwork is pre-rendered` });
+        if (errors.length > 0) return sendInvalid(ctx, errors);
+    }
+    if (imageFormat === "svg") {
+        const errors: QueryError[] = [];
+        if (query.filter && query.filter !== "none") errors.push({ field: "filter", message: "filter is not supported with format=svg; filters grade pixels, so use format=png" });
+        // Only seasons that change the plant itself show up in vectors
+        if (query.season && !(generator.generate instanceof SceneGenerator && generator.generate.seasonalGeometry)) {
+            errors.push({ field: "season", message: `season is not supported with format=svg for ${type}; its seasons only grade pixels, so use format=png` });
+        }
+        if (errors.length > 0) return sendInvalid(ctx, errors);
+    }
     const config: Config = {
-        ...DEFAULT_CONFIG,
+        ...applyRenderOptions(DEFAULT_CONFIG, query),
         photoOnly: true,
-        seed: url.searchParams.get("seed") || randomBytes(16).toString('hex'),
+        seed: query.seed ?? randomBytes(16).toString('hex'),
+        version,
+        imageFormat: imageFormat === "svg" ? imageFormat : undefined,
     };
-    const generator = entities.get(url.searchParams.get("type") || "tree");
-    if (!generator) {
-        return ctx.sendText("Generator not found", {status: 404});
+    // A random seed renders a one-off image, so there is nothing to cache or revalidate
+    const key = query.seed ? renderCacheKey({ entity: type, seed: config.seed, config, params: generator.generatorParams }) : undefined;
+    const etag = key ? `"${key}"` : undefined;
+    if (etag && isNotModified(ctx, etag)) {
+        return ctx.sendRaw(new Response(null, { status: 304, headers: { 'ETag': etag } }));
     }
-    const result = await generator.generate(ctx,undefined, config);
-    if (!result.imageBuffer) {
+
+    const render = (signal: AbortSignal) => renderQueue.run(RENDER_PRIORITY.still, async () => {
+        const result = await generator.generate.generate(ctx, undefined, config);
+        if (!result.imageBuffer) {
+            throw new Error("Generator returned no image");
+        }
+        return result.imageBuffer;
+    }, signal);
+    let imageBuffer: Buffer;
+    try {
+        imageBuffer = key
+            ? await renderCache.getOrRender(key, render, ctx.req.signal)
+            : await render(ctx.req.signal);
+    } catch (err) {
+        if (err instanceof QueueFullError) {
+            return sendBusy(ctx, err.retryAfterSeconds);
+        }
+        if (!ctx.req.signal.aborted) {
+            console.error("❌ Image generation failed:", err);
+        }
         return ctx.sendText("Image generation failed", {status: 500});
     }
 
-    return ctx.sendRaw(new Response(result.imageBuffer, { headers: { 'Content-Type': 'image/png',  } }));
+    const headers: Record<string, string> = { 'Content-Type': imageFormat === "svg" ? "image/svg+xml" : "image/png", 'X-Generator-Version': String(version) };
+    if (etag) headers['ETag'] = etag;
+    return ctx.sendRaw(new Response(imageBuffer, { headers }));
 });
 
 
 app.get("/video", async (ctx) => {
     const url = new URL(ctx.req.url);
+    const query = parseQuery(VIDEO_QUERY, url.searchParams);
+    if (Array.isArray(query)) {
+        return sendInvalid(ctx, query);
+    }
+    const mode = query.mode ?? "growth";
+    const format = query.format;
+    const type = query.type ?? "tree";
+    const generator = entities.get(type);
+    if (!generator) {
+        return ctx.sendJson({ error: "Generator not found" }, { status: 404, headers: {} });
+    }
+    const version = resolveRequestedVersion(generator.generate, query.version);
+    if (typeof version !== "number") {
+        return sendInvalid(ctx, [version]);
+    }
+    const errors: QueryError[] = [];
+    if (mode === "idle" && !generator.generate.supportsIdle) errors.push({ field: "mode", message: `mode=idle is not supported for ${type}` });
+    if (!(generator.generate instanceof SceneGenerator)) {
+        if (format !== undefined && format !== "webm") errors.push({ field: "format", message: `format=${format} is not supported for ${type}; local artwork is only available as webm` });
+        if (query.filter) errors.push({ field: "filter", message: `filter is not supported for ${type}; local artwork is pre-rendered` });
+        if (query.season) errors.push({ field: "season", message: `season is not supported for ${type}; local artwork is pre-rendered` });
+    }
+    if (errors.length > 0) return sendInvalid(ctx, errors);
     const config: Config = {
-        ...DEFAULT_CONFIG,
+        ...applyRenderOptions(DEFAULT_CONFIG, query),
         photoOnly: false,
-        seed: url.searchParams.get("seed") || randomBytes(16).toString('hex'),
+        seed: query.seed ?? randomBytes(16).toString('hex'),
+        version,
+        animation: mode,
+        format,
+        durationSeconds: query.duration ?? (mode === "idle" ? IDLE_LOOP_SECONDS : DEFAULT_CONFIG.durationSeconds),
     };
-    const generator = entities.get(url.searchParams.get("type") || "tree");
-    if (!generator) {
-        return ctx.sendText("Generator not found", {status: 404});
-    }
-    const readableStream = new ReadableStream({
-        start(controller) {
-            generator.generate.generate(ctx,(process, videoStream) => 
-                {
-                videoStream.on('data', (chunk: Buffer) => {
-                    controller.enqueue(chunk);
+    // A random seed renders a one-off video, so there is nothing to cache or revalidate
+    const key = query.seed ? renderCacheKey({ entity: type, seed: config.seed, config, params: generator.generatorParams }) : undefined;
+    const etag = key ? `"${key}"` : undefined;
+    if (etag && isNotModified(ctx, etag)) {
+        return ctx.sendRaw(new Response(null, { status: 304, headers: { 'ETag': etag } }));
+    }
+
+    const headers: Record<string, string> = { "Content-Type": encoderProfile(config).contentType, "X-Generator-Version": String(version) };
+    if (etag) headers["ETag"] = etag;
+    const cached = key ? await renderCache.get(key) : undefined;
+    if (cached) {
+        return ctx.sendRaw(new Response(cached, { headers }));
+    }
+
+    // Stream to the client while keeping a copy. Some generators resolve before their
+    // stream is drained, so it is only cached once the stream itself has ended cleanly.
+    const chunks: Uint8Array[] = [];
+    let encoding: { process?: ChildProcessWithoutNullStreams; stream: Readable } | undefined;
+    let closed = false;
+    let cancelled = false;
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const readableStream = new ReadableStream<Uint8Array>({
+        start(c) {
+            controller = c;
+        },
+        cancel() {
+            // The client went away, so stop encoding for nobody and free the worker
+            cancelled = true;
+            encoding?.process?.kill('SIGKILL');
+            encoding?.stream.destroy();
+        }
+    });
+
+    let startStreaming!: () => void;
+    const started = new Promise<void>(resolve => { startStreaming = resolve; });
+    const job = renderQueue.run(RENDER_PRIORITY.video, async () => {
+        startStreaming();
+        let streamEnded: Promise<void> | undefined;
+        await generator.generate.generate(ctx, (process, videoStream) => {
+            encoding = { process, stream: videoStream };
+            if (cancelled) {
+                process?.kill('SIGKILL');
+                videoStream.destroy();
+            }
+            streamEnded = new Promise<void>((resolve, reject) => {
+                videoStream.on('data', (chunk: Uint8Array) => {
+                    chunks.push(chunk);
+                    if (!cancelled) controller.enqueue(chunk);
                 });
                 videoStream.on('end', () => {
-                    controller.close();
+                    closed = true;
+                    if (!cancelled) controller.close();
+                    resolve();
                 });
+                videoStream.on('close', () => reject(new Error("Video stream closed before it ended")));
                 videoStream.on('error', (err) => {
-                    controller.error(err);
+                    closed = true;
+                    if (!cancelled) controller.error(err);
+                    reject(err);
                 });
-            },
-            config).catch((err) => {
-                controller.error(err);
             });
-        }
+            // Awaited once generate settles; until then a failure must not count as unhandled
+            streamEnded.catch(() => undefined);
+        }, config);
+        await streamEnded;
+        const video = Buffer.concat(chunks);
+        if (!key || video.length === 0) return;
+        await renderCache.set(key, video).catch((err) => {
+            console.error("❌ Failed to cache video:", err);
+        });
+    }, ctx.req.signal);
 
+    // Wait for a worker before answering, so a full queue still gets a proper 503
+    try {
+        await Promise.race([started, job]);
+    } catch (err) {
+        if (err instanceof QueueFullError) {
+            return sendBusy(ctx, err.retryAfterSeconds);
+        }
+        if (!ctx.req.signal.aborted) {
+            console.error("❌ Video generation failed:", err);
+        }
+        return ctx.sendText("Video generation failed", {status: 500});
+    }
+    job.catch((err) => {
+        if (cancelled) return;
+        console.error("❌ Video generation failed:", err);
+        if (!closed) controller.error(err);
     });
     
     
   return ctx.sendRaw(new Response(readableStream, {
     headers: {
-      "Content-Type": "video/webm",
+      ...headers,
       "Transfer-Encoding": "chunked"
     }
   }));
@@ -75,25 +447,178 @@ app.get("/video", async (ctx) => {
 
 app.get("/treeInfo", async (ctx) => {
     const url = new URL(ctx.req.url);
+    const query = parseQuery(TREE_INFO_QUERY, url.searchParams);
+    if (Array.isArray(query)) {
+        return sendInvalid(ctx, query);
+    }
+    const type = query.type ?? "tree";
+    const generator = entities.get(type);
+    if (!generator) {
+        return ctx.sendJson({ error: "Generator not found" }, { status: 404, headers: {} });
+    }
+    const version = resolveRequestedVersion(generator.generate, query.version);
+    if (typeof version !== "number") {
+        return sendInvalid(ctx, [version]);
+    }
+    if (query.season && !(generator.generate instanceof SceneGenerator)) {
+        return sendInvalid(ctx, [{ field: "season", message: `season is not supported for ${type}; local artwork is pre-rendered` }]);
+    }
     const config: Config = {
-        ...DEFAULT_CONFIG,
+        ...applyRenderOptions(DEFAULT_CONFIG, query),
         photoOnly: true,
-        seed: url.searchParams.get("seed") || randomBytes(16).toString('hex'),
+        seed: query.seed ?? randomBytes(16).toString('hex'),
+        version,
     };
-    const generator = entities.get("tree");
-    if (!generator) {
-        return ctx.sendText("Generator not found", {status: 404});
+    let result: GeneratorResult;
+    try {
+        result = await generator.generate.getInfo(config);
+    } catch (err) {
+        console.error(`❌ Tree info failed for ${type}:`, err);
+        return ctx.sendText("Tree info generation failed", {status: 500});
     }
-    const result = await generator.generate.getInfo(config);
     if (!result.trunkStartPosition) {
         return ctx.sendText("Tree info generation failed", {status: 500});
     }
 
     return ctx.sendJson({
-        trunkStartPosition: result.trunkStartPosition
+        trunkStartPosition: result.trunkStartPosition,
+        bounds: result.bounds,
+        canopyBounds: result.canopyBounds,
+        growthDurationSeconds: result.growthDurationSeconds,
+        version
+    });
+});
+
+app.post("/grid", async (ctx) => {
+    let body: { trees?: unknown[]; tiles?: unknown; theme?: unknown; filter?: FilterName; season?: Season };
+    try {
+        body = await ctx.req.json();
+    } catch {
+        return sendInvalid(ctx, [{ field: "body", message: "Invalid JSON body" }]);
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return sendInvalid(ctx, [{ field: "body", message: "Body must be a JSON object" }]);
+    }
+    if (!Array.isArray(body.trees) || body.trees.length === 0) {
+        return sendInvalid(ctx, [{ field: "trees", message: "Body must contain a non-empty 'trees' array" }]);
+    }
+    const errors: QueryError[] = [];
+    const placements: GridPlacement[] = [];
+    const planted = new Set<string>();
+    for (const [index, raw] of body.trees.entries()) {
+        const placement = parsePlacement(raw, index, planted);
+        if ("field" in placement) {
+            errors.push(placement);
+        } else {
+            placements.push(placement);
+        }
+    }
+    let tiles: GridTile[] | undefined;
+    if (body.tiles !== undefined) {
+        if (!Array.isArray(body.tiles) || body.tiles.length === 0) {
+            errors.push({ field: "tiles", message: "tiles must be a non-empty array when given" });
+        } else {
+            tiles = [];
+            const seen = new Set<string>();
+            for (const [index, raw] of body.tiles.entries()) {
+                const tile = parseTile(raw, index, seen);
+                if ("field" in tile) {
+                    errors.push(tile);
+                } else {
+                    tiles.push(tile);
+                }
+            }
+        }
+    }
+    if (errors.length === 0) {
+        const gridTiles = tiles ?? boundingTiles(placements);
+        try {
+            assertTreesOnTiles(placements, gridTiles);
+        } catch (err) {
+            errors.push({ field: "trees", message: err instanceof Error ? err.message : String(err) });
+        }
+        const { canvasWidth, canvasHeight } = createGridLayout(gridTiles);
+        if (canvasWidth * canvasHeight > MAX_GRID_PIXELS) {
+            errors.push({ field: tiles ? "tiles" : "trees", message: `Grid would render ${canvasWidth}x${canvasHeight}; at most ${MAX_GRID_PIXELS} pixels are allowed` });
+        }
+    }
+    for (const field of ["filter", "season"] as const) {
+        const value: unknown = body[field];
+        if (value !== undefined && (typeof value !== "string" || RENDER_FIELDS[field].parse(value) === undefined)) {
+            errors.push({ field, message: `${field} must be ${RENDER_FIELDS[field].expected}` });
+        }
+    }
+    const theme = body.theme === undefined ? undefined : gridThemes.get(body.theme as string);
+    if (body.theme !== undefined && !theme) {
+        errors.push({ field: "theme", message: `theme must be one of ${Array.from(gridThemes.keys()).join(", ")}` });
+    }
+    if (errors.length > 0) {
+        return sendInvalid(ctx, errors);
+    }
+
+    // Same type+seed+version always renders the same image, so render it once
+    const rendered = new Map<string, Buffer>();
+    const trees: TreeConfig[] = [];
+    for (const placement of placements) {
+        const entity = entities.get(placement.type)!;
+        const key = `${placement.type}:${placement.seed}:${placement.version}`;
+        let imageBuffer = rendered.get(key);
+        if (!imageBuffer) {
+            const config: Config = {
+                ...DEFAULT_CONFIG,
+                photoOnly: true,
+                save_as_file: false,
+                seed: placement.seed,
+                version: placement.version,
+                season: body.season,
+            };
+            try {
+                imageBuffer = await renderCache.getOrRender(
+                    renderCacheKey({ entity: placement.type, seed: placement.seed, config, params: entity.generatorParams }),
+                    signal => renderQueue.run(RENDER_PRIORITY.still, async () => {
+                        const result = await entity.generate.generate(ctx, undefined, config);
+                        if (!result.imageBuffer) {
+                            throw new Error("Generator returned no image");
+                        }
+                        return result.imageBuffer;
+                    }, signal),
+                    ctx.req.signal
+                );
+            } catch (err) {
+                if (err instanceof QueueFullError) {
+                    return sendBusy(ctx, err.retryAfterSeconds);
+                }
+                console.error(`❌ Image generation failed for ${placement.type}:`, err);
+                return ctx.sendText(`Image generation failed for ${placement.type}`, {status: 500});
+            }
+            rendered.set(key, imageBuffer);
+        }
+        trees.push({
+            imageBuffer,
+            gridX: placement.gridX,
+            gridY: placement.gridY,
+            scale: placement.scale,
+        });
+    }
+
+    let result: GridResult;
+    try {
+        result = await generateGrid({ trees, tiles, theme, filter: body.filter });
+    } catch (err) {
+        console.error("❌ Grid generation failed:", err);
+        return ctx.sendText("Grid generation failed", {status: 500});
+    }
+
+    return ctx.sendJson({
+        image: result.buffer.toString('base64'),
+        positions: result.positions,
+        trees: placements.map(({ type, seed, gridX, gridY, version }) => ({ type, seed, gridX, gridY, version }))
     });
 });
 
-const server = app.listen({ port: 3000 });
+// Tests import the app and listen on a port of their own
+if (import.meta.main) {
+    const server = app.listen({ port: 3000 });
 
-console.log(`Server listening on http://localhost:${server.port}`);
+    console.log(`Server listening on http://localhost:${server.port}`);
+}
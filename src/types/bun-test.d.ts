@@ -0,0 +1,11 @@
+// baojs pulls in an older bun:test declaration whose expect() only knows
+// toBe and toContain; these are the other matchers the tests use
+declare module 'bun:test' {
+    interface Expect {
+        toEqual(value: unknown): void;
+        toBeLessThan(value: number): void;
+        toBeLessThanOrEqual(value: number): void;
+        toBeGreaterThan(value: number): void;
+        toBeInstanceOf(value: Function): void;
+    }
+}
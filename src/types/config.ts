@@ -1,4 +1,7 @@
 import { randomBytes } from "crypto";
+import type { FilterName } from "../core/filters";
+import type { Season } from "./season";
+import type { VideoFormat } from "./video-format";
 
 export type Config = {
     photoOnly: boolean;  // If true, only generate a final image
@@ -11,6 +14,14 @@ export type Config = {
     imageFilename: string;
     padding: number;
     save_as_file: boolean;
+    progress: number; // Growth progress (0..1) of the still frame when photoOnly is set
+    season?: Season; // Seasonal geometry plus the matching colour grade; unset renders the plain look
+    filter?: FilterName; // Colour grade applied on top of the season's
+    animation?: 'growth' | 'idle'; // 'idle' loops the grown plant swaying in the wind for durationSeconds
+    imageFormat?: 'png' | 'svg'; // Encoding of stills; svg keeps seasonal geometry but skips the pixel colour grade
+    format?: VideoFormat; // Video encoding; unset is VP9 webm with alpha
+    atlasFrames?: number; // If set, render this many evenly spaced growth frames into one sprite sheet instead
+    version?: number; // Generator version to render; unset renders the latest
 }
 export const DEFAULT_CONFIG: Config = {
     photoOnly: true,
@@ -21,6 +32,7 @@ export const DEFAULT_CONFIG: Config = {
     seed: randomBytes(16).toString('hex'), // Random seed for unique tree", 
     filename: "video.webm",
     imageFilename: "image.png",
-    padding: 80, // Padding from edges
-    save_as_file: false
+    padding: 80, // Padding from edges, in pixels of the 480px reference canvas so it grows with the output
+    save_as_file: false,
+    progress: 1
 };
\ No newline at end of file
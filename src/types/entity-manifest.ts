@@ -0,0 +1,18 @@
+/**
+ * Entity definition loaded from the plugins directory. Optional fields fall
+ * back to the defaults of the built-in entities.
+ */
+export type EntityManifest = {
+    id: string;
+    name: string;
+    description: string;
+    creator?: string;
+    donate?: string;
+    variants?: number;
+    basePrice: number;
+    isGrowable?: boolean;
+    generator: {
+        kind: string;
+        params?: Record<string, unknown>;
+    };
+};
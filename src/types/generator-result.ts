@@ -1,3 +1,6 @@
+import type { Bounds } from "./layout";
+import type { SpriteAtlas } from "./sprite-atlas";
+
 
 
 export type GeneratorResult = {
@@ -5,4 +8,11 @@ export type GeneratorResult = {
     imagePath?: string;
     imageBuffer?: Buffer;
     trunkStartPosition?: { x: number; y: number; };
+    /** Canvas-space extents of the fully grown plant */
+    bounds?: Bounds;
+    /** Canvas-space extents of the foliage/flowers only */
+    canopyBounds?: Bounds;
+    growthDurationSeconds?: number;
+    /** Set when atlasFrames was requested; imageBuffer then holds the sheet */
+    atlas?: SpriteAtlas;
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+export type TileMaterial = 'grass' | 'water' | 'stone' | 'sand' | 'snow';
+
+/**
+ * Colours of a material's top face and the band of it showing on the sides,
+ * above the soil. `detail` draws tufts, ripples, cobbles and the like.
+ */
+export interface TilePalette {
+    top: string;
+    sideLight: string;
+    sideDark: string;
+    detail: string;
+    gridStroke: string;
+}
+
+/**
+ * Everything that decides how an isometric grid looks. Sizes are in pixels
+ * at 1x and get multiplied by the grid's SCALE.
+ */
+export interface GridTheme {
+    name: string;
+    palette: Record<TileMaterial, TilePalette>;
+    soil: { sideLight: string; sideDark: string; strata: string };
+    /** Grass tufts on empty tiles; `chance` is the share of tiles that get one. */
+    tuft: { lineWidth: number; size: number; chance: number };
+    shadowColor: string;
+    /** Wavy line where the top material meets the soil. */
+    wave: { amplitude: number; frequency: number };
+    /** Fill behind the grid. Stills stay transparent without one, videos turn white. */
+    background?: string;
+}
+
+/**
+ * A theme written as changes to another one, as theme files are.
+ */
+export interface GridThemeOverrides {
+    name: string;
+    palette?: Partial<Record<TileMaterial, Partial<TilePalette>>>;
+    soil?: Partial<GridTheme['soil']>;
+    tuft?: Partial<GridTheme['tuft']>;
+    shadowColor?: string;
+    wave?: Partial<GridTheme['wave']>;
+    background?: string;
+}
@@ -0,0 +1,16 @@
+export interface Bounds {
+    minX: number; maxX: number; minY: number; maxY: number;
+}
+
+/**
+ * Maps a scene's logical coordinates onto the output canvas:
+ * canvasX = x * scale + offsetX, canvasY = y * scale + offsetY.
+ */
+export type Layout = {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+    trunkStartPosition: { x: number; y: number; };
+    /** Canvas pixels per pixel of the 480px reference canvas, for sizes that are fixed in pixels rather than scene units. */
+    pixelScale: number;
+};
@@ -0,0 +1 @@
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
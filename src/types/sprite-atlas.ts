@@ -0,0 +1,24 @@
+export type AtlasFrame = {
+    /** Pixel rectangle of the frame within the sheet */
+    frame: { x: number; y: number; w: number; h: number; };
+    /** Growth progress shown, 0 (seedling) to 1 (fully grown) */
+    progress: number;
+    /** Where the frame falls in the growth video, in seconds */
+    time: number;
+    /** How long to show the frame before the next one */
+    durationMs: number;
+    /** Trunk start relative to the frame's top-left corner */
+    anchor: { x: number; y: number; };
+};
+
+/**
+ * Layout of a sprite sheet of growth frames, in row-major order.
+ */
+export type SpriteAtlas = {
+    image: string;
+    size: { w: number; h: number; };
+    frameSize: { w: number; h: number; };
+    columns: number;
+    rows: number;
+    frames: AtlasFrame[];
+};
@@ -0,0 +1 @@
+export type VideoFormat = 'webm' | 'mov' | 'webp' | 'apng' | 'gif' | 'png-zip';